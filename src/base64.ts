@@ -0,0 +1,35 @@
+/**
+ * Encode bytes as base64 with Buffer in Node, btoa elsewhere
+ */
+export function toBase64(bytes: Uint8Array): string {
+  // @ts-ignore - Buffer may be available in Node runtime
+  if (typeof Buffer !== 'undefined') {
+    // @ts-ignore
+    return Buffer.from(bytes).toString('base64');
+  }
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    const chunk = bytes.subarray(i, i + chunkSize);
+    binary += String.fromCharCode(...chunk);
+  }
+  // @ts-ignore - btoa available in Edge/Web runtimes
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 to bytes with Buffer in Node, atob elsewhere
+ */
+export function fromBase64(b64: string): Uint8Array {
+  // @ts-ignore - Buffer may be available in Node runtime
+  if (typeof Buffer !== 'undefined') {
+    // @ts-ignore
+    return new Uint8Array(Buffer.from(b64, 'base64'));
+  }
+  // @ts-ignore - atob available in Edge/Web runtimes
+  const binary = atob(b64);
+  const len = binary.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
@@ -0,0 +1,83 @@
+import { parseCacheControl } from './cache-control';
+import type { CacheBypassOptions, CachedFetchOptions } from './types';
+
+/**
+ * Cookie Next.js sets while draft mode (formerly preview mode) is enabled
+ */
+const DRAFT_MODE_COOKIE = '__prerender_bypass';
+
+/**
+ * Why a request skips the cache entirely
+ */
+export type CacheBypassReason = 'development' | 'draft-mode';
+
+/**
+ * Why a request refetches and overwrites its entry
+ */
+export type CacheRefreshReason = 'no-cache' | 'refresh-header';
+
+function hasCookie(cookieHeader: string | null, name: string): boolean {
+  if (!cookieHeader) return false;
+  return cookieHeader.split(';').some(cookie => cookie.split('=', 1)[0].trim() === name);
+}
+
+/**
+ * Compare strings in time independent of where they differ
+ */
+function safeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+/**
+ * Decide whether a request skips the cache
+ */
+export function getBypassReason(
+  options: CacheBypassOptions = {},
+  init?: CachedFetchOptions
+): CacheBypassReason | undefined {
+  const cacheOption = init?.cache ?? 'auto no cache';
+  if (
+    cacheOption === 'auto no cache' &&
+    options.development !== false &&
+    process.env.NODE_ENV === 'development'
+  ) {
+    return 'development';
+  }
+  
+  const incomingHeaders = init?.next?.incomingRequest?.headers;
+  if (options.draftMode !== false && hasCookie(incomingHeaders?.get('cookie') ?? null, DRAFT_MODE_COOKIE)) {
+    return 'draft-mode';
+  }
+  
+  return undefined;
+}
+
+/**
+ * Decide whether a request refetches and overwrites its entry
+ */
+export function getRefreshReason(
+  options: CacheBypassOptions = {},
+  init?: CachedFetchOptions
+): CacheRefreshReason | undefined {
+  const incomingHeaders = init?.next?.incomingRequest?.headers;
+  if (!incomingHeaders) return undefined;
+  
+  // Fails closed: a missing secret disables the header unless any value was explicitly allowed
+  const { refreshHeader, refreshSecret } = options;
+  if (refreshHeader && (refreshSecret === false || refreshSecret)) {
+    const value = incomingHeaders.get(refreshHeader);
+    if (value !== null && (refreshSecret === false || safeEqual(value, refreshSecret))) {
+      return 'refresh-header';
+    }
+  }
+  
+  if (options.noCache === true && parseCacheControl(incomingHeaders.get('cache-control')).noCache) {
+    return 'no-cache';
+  }
+  
+  return undefined;
+}
@@ -0,0 +1,138 @@
+/**
+ * Parsed Cache-Control response directives relevant to a shared cache
+ */
+export interface CacheControlDirectives {
+  noStore: boolean;
+  noCache: boolean;
+  private: boolean;
+  maxAge?: number;
+  sMaxAge?: number;
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+}
+
+function parseSeconds(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const seconds = parseInt(value.replace(/^"|"$/g, ''), 10);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+}
+
+/**
+ * Parse a Cache-Control header value
+ * Unknown directives are ignored
+ */
+export function parseCacheControl(header: string | null): CacheControlDirectives {
+  const directives: CacheControlDirectives = { noStore: false, noCache: false, private: false };
+  if (!header) return directives;
+  
+  for (const part of header.split(',')) {
+    const [rawName, rawValue] = part.split('=', 2);
+    const name = rawName.trim().toLowerCase();
+    const value = rawValue?.trim();
+    
+    switch (name) {
+      case 'no-store':
+        directives.noStore = true;
+        break;
+      case 'no-cache':
+        directives.noCache = true;
+        break;
+      case 'private':
+        directives.private = true;
+        break;
+      case 'max-age':
+        directives.maxAge = parseSeconds(value);
+        break;
+      case 's-maxage':
+        directives.sMaxAge = parseSeconds(value);
+        break;
+      case 'stale-while-revalidate':
+        directives.staleWhileRevalidate = parseSeconds(value);
+        break;
+      case 'stale-if-error':
+        directives.staleIfError = parseSeconds(value);
+        break;
+    }
+  }
+  
+  return directives;
+}
+
+/**
+ * Compute how long a response stays fresh (in seconds) from its headers
+ * Prefers s-maxage over max-age (we are a shared cache), then Expires relative to Date.
+ * Returns undefined when the origin sent no explicit freshness information.
+ */
+export function getFreshnessLifetime(headers: Headers, directives: CacheControlDirectives): number | undefined {
+  let lifetime: number | undefined;
+  
+  if (directives.sMaxAge !== undefined) {
+    lifetime = directives.sMaxAge;
+  } else if (directives.maxAge !== undefined) {
+    lifetime = directives.maxAge;
+  } else {
+    const expires = headers.get('expires');
+    if (expires !== null) {
+      const expiresAt = Date.parse(expires);
+      const dateHeader = headers.get('date');
+      const date = dateHeader ? Date.parse(dateHeader) : NaN;
+      const responseTime = Number.isNaN(date) ? Date.now() : date;
+      // Invalid Expires values (e.g. "0") mean already expired
+      lifetime = Number.isNaN(expiresAt) ? 0 : Math.max(0, Math.floor((expiresAt - responseTime) / 1000));
+    }
+  }
+  
+  if (lifetime === undefined) return undefined;
+  
+  // Subtract time already spent in upstream caches
+  const age = parseSeconds(headers.get('age') ?? undefined) ?? 0;
+  return Math.max(0, lifetime - age);
+}
+
+/**
+ * Parse a Vary header into lowercased, sorted request header names
+ * Returns '*' when the response varies on everything
+ */
+export function parseVary(header: string | null): string[] | '*' {
+  if (!header) return [];
+  
+  const names = header
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+  
+  if (names.includes('*')) return '*';
+  return Array.from(new Set(names)).sort();
+}
+
+/**
+ * How a shared cache may store a response according to its HTTP caching headers
+ */
+export interface OriginCachePolicy {
+  storable: boolean; // False for no-store, private (unless allowed), no-cache, Vary: * or zero lifetime
+  freshness?: number; // Seconds the response stays fresh, undefined when not specified
+  staleWhileRevalidate: number; // Seconds the response may be served stale while refreshing
+  staleIfError?: number; // Seconds the response may be served past expiry when origin fails
+  vary: string[] | '*';
+}
+
+/**
+ * Derive the cache policy for a response from Cache-Control, Expires, Age and Vary
+ * allowPrivate permits storing private responses in caches keyed per user
+ */
+export function getOriginCachePolicy(headers: Headers, options: { allowPrivate?: boolean } = {}): OriginCachePolicy {
+  const directives = parseCacheControl(headers.get('cache-control'));
+  const vary = parseVary(headers.get('vary'));
+  const freshness = getFreshnessLifetime(headers, directives);
+  const staleWhileRevalidate = directives.staleWhileRevalidate ?? 0;
+  
+  // no-cache requires revalidation before every use, which background refresh cannot honor
+  const storable =
+    !directives.noStore &&
+    (!directives.private || options.allowPrivate === true) &&
+    !directives.noCache &&
+    vary !== '*' &&
+    (freshness === undefined || freshness + staleWhileRevalidate > 0);
+  
+  return { storable, freshness, staleWhileRevalidate, staleIfError: directives.staleIfError, vary };
+}
@@ -0,0 +1,151 @@
+import { fromBase64, toBase64 } from './base64';
+import type { CacheEncryptionKey, CacheEncryptionOptions, CacheStore } from './types';
+
+/**
+ * Stored form of an encrypted value
+ */
+interface EncryptedValue {
+  encryption: 'AES-GCM';
+  kid: string; // Id of the key the value was encrypted with
+  iv: string; // Base64 96-bit nonce
+  data: string; // Base64 ciphertext including the authentication tag
+}
+
+const DEFAULT_KEY_ID = 'default';
+const KEY_LENGTHS = [16, 24, 32];
+const AUTH_TAG_LENGTH = 16; // Bytes, appended to the ciphertext
+
+function isEncryptedValue(value: unknown): value is EncryptedValue {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    candidate.encryption === 'AES-GCM' &&
+    typeof candidate.kid === 'string' &&
+    typeof candidate.iv === 'string' &&
+    typeof candidate.data === 'string'
+  );
+}
+
+/**
+ * Web Crypto from the global scope (Edge, Node 19+) or the crypto module (Node 18)
+ */
+async function getWebCrypto(): Promise<Crypto> {
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    return crypto;
+  }
+  // @ts-ignore - crypto module is available in Node.js
+  const { webcrypto } = await import('crypto');
+  return webcrypto as Crypto;
+}
+
+function normalizeKey(key: string | CacheEncryptionKey): CacheEncryptionKey {
+  return typeof key === 'string' ? { id: DEFAULT_KEY_ID, key } : key;
+}
+
+/**
+ * Longest chunk whose encrypted record stays within chunkSize characters
+ * Leaves room for the JSON quotes, authentication tag, base64 expansion and envelope fields.
+ * Like chunkSize itself, it counts one byte per character (exact for base64-encoded bodies).
+ */
+export function getEncryptedChunkSize(chunkSize: number, options: CacheEncryptionOptions): number {
+  const { id } = normalizeKey(options.key);
+  const envelope: EncryptedValue = { encryption: 'AES-GCM', kid: id, iv: toBase64(new Uint8Array(12)), data: '' };
+  const dataLength = chunkSize - JSON.stringify(envelope).length;
+  const plaintextLength = Math.floor(dataLength / 4) * 3 - AUTH_TAG_LENGTH - 2;
+  return Math.max(1, plaintextLength);
+}
+
+/**
+ * Wrap a cache store so values are encrypted with AES-GCM before they are written
+ * The cache key is bound to each value as additional authenticated data, so values
+ * can't be moved between keys. Values that fail to decrypt read as missing.
+ */
+export function createEncryptedStore(store: CacheStore, options: CacheEncryptionOptions): CacheStore {
+  const encryptionKey = normalizeKey(options.key);
+  const keys = [encryptionKey, ...(options.decryptionKeys ?? [])];
+  
+  for (const { id, key } of keys) {
+    if (!id) {
+      throw new TypeError('[cached-middleware-fetch] Encryption keys need an id');
+    }
+    if (typeof key === 'string' && !KEY_LENGTHS.includes(fromBase64(key).length)) {
+      throw new TypeError(`[cached-middleware-fetch] Encryption key "${id}" must be a base64-encoded 128, 192 or 256-bit key`);
+    }
+  }
+  
+  // Keys are imported once, on first use
+  const cryptoKeys = new Map<string, Promise<CryptoKey>>();
+  const getCryptoKey = (id: string): Promise<CryptoKey> | undefined => {
+    const entry = keys.find(candidate => candidate.id === id);
+    if (!entry) return undefined;
+    
+    let cryptoKey = cryptoKeys.get(id);
+    if (!cryptoKey) {
+      const { key } = entry;
+      cryptoKey = typeof key === 'string'
+        ? getWebCrypto().then(webCrypto => webCrypto.subtle.importKey(
+          'raw',
+          fromBase64(key) as unknown as ArrayBuffer,
+          'AES-GCM',
+          false,
+          ['encrypt', 'decrypt']
+        ))
+        : Promise.resolve(key);
+      cryptoKeys.set(id, cryptoKey);
+    }
+    return cryptoKey;
+  };
+  
+  const encoder = new TextEncoder();
+  
+  return {
+    async get(cacheKey) {
+      const value = await store.get(cacheKey);
+      if (value === undefined || value === null) return value;
+      // Plaintext values would bypass authentication, so they are ignored
+      if (!isEncryptedValue(value)) return undefined;
+      
+      const cryptoKey = getCryptoKey(value.kid);
+      if (!cryptoKey) return undefined;
+      
+      try {
+        const webCrypto = await getWebCrypto();
+        const plaintext = await webCrypto.subtle.decrypt(
+          {
+            name: 'AES-GCM',
+            iv: fromBase64(value.iv) as unknown as ArrayBuffer,
+            additionalData: encoder.encode(cacheKey) as unknown as ArrayBuffer,
+          },
+          await cryptoKey,
+          fromBase64(value.data) as unknown as ArrayBuffer
+        );
+        return JSON.parse(new TextDecoder().decode(plaintext));
+      } catch {
+        return undefined;
+      }
+    },
+    
+    async set(cacheKey, value, setOptions) {
+      const webCrypto = await getWebCrypto();
+      const iv = webCrypto.getRandomValues(new Uint8Array(12));
+      const ciphertext = await webCrypto.subtle.encrypt(
+        {
+          name: 'AES-GCM',
+          iv: iv as unknown as ArrayBuffer,
+          additionalData: encoder.encode(cacheKey) as unknown as ArrayBuffer,
+        },
+        await getCryptoKey(encryptionKey.id)!,
+        encoder.encode(JSON.stringify(value)) as unknown as ArrayBuffer
+      );
+      const encrypted: EncryptedValue = {
+        encryption: 'AES-GCM',
+        kid: encryptionKey.id,
+        iv: toBase64(iv),
+        data: toBase64(new Uint8Array(ciphertext)),
+      };
+      await store.set(cacheKey, encrypted, setOptions);
+    },
+    
+    delete: (cacheKey) => store.delete(cacheKey),
+  };
+}
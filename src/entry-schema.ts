@@ -0,0 +1,80 @@
+import type { CacheEntry } from './types';
+
+/**
+ * Schema version written to every new cache entry
+ * Bump this and add a migration below whenever the stored shape or its meaning changes.
+ */
+export const CACHE_ENTRY_VERSION = 2;
+
+/**
+ * Upgrades from one schema version to the next, keyed by the version they upgrade from
+ * Entries written before versioning are treated as version 1.
+ */
+const MIGRATIONS: Record<number, (entry: Record<string, any>) => Record<string, any>> = {
+  // Version 1 entries may lack isBinary / contentType; bodies were plain text or base64
+  1: (entry) => ({
+    ...entry,
+    isBinary: entry.isBinary === true,
+    contentType: entry.contentType ?? entry.headers?.['content-type'],
+    version: 2,
+  }),
+};
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isOptionalNumber(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'number' && Number.isFinite(value));
+}
+
+/**
+ * Check that a value has the shape of a current-version cache entry
+ */
+export function isValidCacheEntry(value: unknown): value is CacheEntry {
+  if (!isObject(value)) return false;
+  
+  const entry = value;
+  return (
+    entry.version === CACHE_ENTRY_VERSION &&
+    Number.isInteger(entry.status) && entry.status >= 100 && entry.status <= 599 &&
+    typeof entry.data === 'string' &&
+    typeof entry.statusText === 'string' &&
+    typeof entry.timestamp === 'number' && Number.isFinite(entry.timestamp) &&
+    isObject(entry.headers) &&
+    Object.values(entry.headers).every(header => typeof header === 'string') &&
+    isOptionalNumber(entry.revalidateAfter) &&
+    isOptionalNumber(entry.expiresAt) &&
+    isOptionalNumber(entry.staleIfErrorUntil) &&
+    isOptionalNumber(entry.originLatency) &&
+    (entry.tags === undefined || entry.tags === null ||
+      (Array.isArray(entry.tags) && entry.tags.every((tag: unknown) => typeof tag === 'string'))) &&
+    (entry.isBinary === undefined || typeof entry.isBinary === 'boolean') &&
+    (entry.compression === undefined || entry.compression === null ||
+      entry.compression === 'gzip' || entry.compression === 'deflate') &&
+    (entry.chunks === undefined || entry.chunks === null ||
+      (isObject(entry.chunks) && typeof entry.chunks.id === 'string' && Number.isInteger(entry.chunks.count)))
+  );
+}
+
+/**
+ * Upgrade a stored value to the current schema version
+ * Returns undefined for malformed values, values written by a newer version and
+ * anything that isn't a cache entry, so they are treated as a miss instead of served.
+ */
+export function migrateCacheEntry(value: unknown): CacheEntry | undefined {
+  if (!isObject(value)) return undefined;
+  
+  let entry = value;
+  let version = entry.version === undefined ? 1 : entry.version;
+  if (!Number.isInteger(version) || version > CACHE_ENTRY_VERSION) return undefined;
+  
+  while (version < CACHE_ENTRY_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return undefined;
+    entry = migrate(entry);
+    version = entry.version;
+  }
+  
+  return isValidCacheEntry(entry) ? entry : undefined;
+}
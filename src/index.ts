@@ -1,9 +1,84 @@
-// @ts-ignore - getCache and waitUntil are available at runtime on Vercel
-import { getCache, waitUntil } from '@vercel/functions';
-import type { CachedFetchOptions, CacheEntry } from './types';
+// @ts-ignore - waitUntil is available at runtime on Vercel
+import { waitUntil } from '@vercel/functions';
+import { getOriginCachePolicy, parseCacheControl, parseVary } from './cache-control';
+import { createVercelRuntimeCacheStore } from './stores';
+import { getBypassReason, getRefreshReason } from './bypass';
+import { CACHE_ENTRY_VERSION, migrateCacheEntry } from './entry-schema';
+import { fromBase64, toBase64 } from './base64';
+import { createEncryptedStore, getEncryptedChunkSize } from './encryption';
+import { createMemoryCache } from './memory-cache';
+import type { MemoryCache } from './memory-cache';
+import { CircuitOpenError, createCircuitBreaker, fetchWithPolicy } from './origin';
+import type { CircuitBreaker, OriginFetchPolicy } from './origin';
+import { applyCachePolicy, defineCachePolicies } from './policies';
+import { setCacheResponseHeaders } from './response-headers';
+import type { CacheResponseInfo, CacheResponseSummary } from './response-headers';
+import { createInstrumentation, now as monotonicNow } from './telemetry';
+import type { Instrumentation } from './telemetry';
+import type {
+  CachedFetch,
+  CachedFetchConfig,
+  CachedFetchOptions,
+  CachedFunctionOptions,
+  CachedJsonResult,
+  CacheCompression,
+  CacheEntry,
+  CacheKeyFunction,
+  CacheKeyOptions,
+  CacheMissEvent,
+  CachePolicyTable,
+  CacheResponseHeaderOptions,
+  CacheStore,
+  MemoryCacheStats,
+  RefreshLockRecord,
+  TagRevalidationRecord,
+  TelemetryAttributes,
+  VaryRecord
+} from './types';
 
 // Re-export types for convenience
-export type { CachedFetchOptions, CacheEntry } from './types';
+export type {
+  CachedFetch,
+  CachedFetchConfig,
+  CachedFetchOptions,
+  CachedFunctionOptions,
+  CachedJsonResult,
+  CacheCompression,
+  CacheEntry,
+  CacheEntryChunks,
+  CacheKeyFunction,
+  CacheKeyOptions,
+  CachePolicy,
+  CachePolicyMatch,
+  CachePolicyTable,
+  CacheResponseHeaderOptions,
+  CacheBypassOptions,
+  CacheEncryptionKey,
+  CacheEncryptionOptions,
+  CacheStore,
+  CacheStoreSetOptions,
+  MemoryStoreOptions,
+  MemoryCacheOptions,
+  MemoryCacheStats,
+  CircuitBreakerOptions,
+  CachedFetchHooks,
+  CachedFetchTelemetry,
+  CacheEventBase,
+  CacheHitEvent,
+  CacheMissEvent,
+  CacheRevalidateEvent,
+  CacheStoreEvent,
+  CacheErrorEvent,
+  TelemetryAttributes,
+  TelemetrySpan,
+  TelemetryTracer,
+  TelemetryMeter
+} from './types';
+
+// Bundled cache store adapters
+export { createMemoryStore, createVercelRuntimeCacheStore } from './stores';
+export { CircuitOpenError, OriginTimeoutError } from './origin';
+export { defineCachePolicies } from './policies';
 
 /**
  * Verbose logger that only logs when CACHED_MIDDLEWARE_FETCH_LOGGER=1
@@ -14,19 +89,37 @@ function verboseLog(...args: any[]): void {
   }
 }
 
+/**
+ * Represent raw body bytes in the cache key
+ * Valid UTF-8 is kept as text (matching Next.js), anything else is hashed byte-for-byte
+ * so distinct binary payloads never share a key
+ */
+async function bytesToKeyChunk(bytes: Uint8Array): Promise<string | { sha256: string }> {
+  try {
+    return new TextDecoder('utf-8', { fatal: true, ignoreBOM: true }).decode(bytes);
+  } catch {
+    return { sha256: await sha256Bytes(bytes) };
+  }
+}
+
 /**
  * Process body for cache key generation, matching Next.js behavior
  * Note: The body is consumed here for cache key generation only.
- * The original body is preserved for the actual fetch request.
+ * The original body is preserved for the actual fetch request; only a
+ * ReadableStream (which can be read once) is replaced by its bytes in ogBody.
  */
 async function processBodyForCacheKey(body: BodyInit | null | undefined): Promise<{ chunks: any[], ogBody?: BodyInit }> {
   if (!body) return { chunks: [] };
   
-  // Handle Uint8Array
-  if (body instanceof Uint8Array) {
-    const decoder = new TextDecoder();
-    const decoded = decoder.decode(body);
-    return { chunks: [decoded], ogBody: body };
+  // Handle ArrayBuffer views (Uint8Array and other typed arrays, DataView)
+  if (ArrayBuffer.isView(body)) {
+    const bytes = new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+    return { chunks: [await bytesToKeyChunk(bytes)] };
+  }
+  
+  // Handle ArrayBuffer
+  if (body instanceof ArrayBuffer) {
+    return { chunks: [await bytesToKeyChunk(new Uint8Array(body))] };
   }
   
   // Handle ReadableStream
@@ -53,20 +146,34 @@ async function processBodyForCacheKey(body: BodyInit | null | undefined): Promis
       offset += chunk.length;
     }
     
-    const decoder = new TextDecoder();
-    const decoded = decoder.decode(combined);
-    return { chunks: [decoded], ogBody: combined };
+    return { chunks: [await bytesToKeyChunk(combined)], ogBody: combined };
   }
   
   // Handle FormData
   if (typeof FormData !== 'undefined' && body instanceof FormData) {
     const serialized: string[] = [];
+    const fileParts: Array<{ field: string; filename: string; type: string; sha256: string }> = [];
+    const entries: Array<[string, FormDataEntryValue]> = [];
     body.forEach((value, key) => {
+      entries.push([key, value]);
+    });
+    
+    for (const [key, value] of entries) {
       if (typeof value === 'string') {
         serialized.push(`${key}=${value}`);
+      } else {
+        // File parts are hashed by content so different uploads get different keys
+        const bytes = new Uint8Array(await value.arrayBuffer());
+        fileParts.push({
+          field: key,
+          filename: value.name,
+          type: value.type,
+          sha256: await sha256Bytes(bytes),
+        });
       }
-    });
-    return { chunks: [serialized.join(',')] };
+    }
+    
+    return { chunks: fileParts.length > 0 ? [serialized.join(','), ...fileParts] : [serialized.join(',')] };
   }
   
   // Handle URLSearchParams
@@ -78,11 +185,10 @@ async function processBodyForCacheKey(body: BodyInit | null | undefined): Promis
     return { chunks: [serialized.join(',')] };
   }
   
-  // Handle Blob
+  // Handle Blob (reading a Blob does not consume it, so the original is sent as-is)
   if (typeof Blob !== 'undefined' && body instanceof Blob) {
-    const text = await body.text();
-    const newBlob = new Blob([text], { type: body.type });
-    return { chunks: [text], ogBody: newBlob };
+    const bytes = new Uint8Array(await body.arrayBuffer());
+    return { chunks: [await bytesToKeyChunk(bytes)] };
   }
   
   // Handle string
@@ -135,14 +241,127 @@ function processHeadersForCacheKey(headers: HeadersInit | undefined): Record<str
 }
 
 /**
- * Generate SHA-256 hash of a string
+ * Match a name against a pattern where '*' matches any sequence of characters
  */
-async function sha256(message: string): Promise<string> {
+function matchesNamePattern(name: string, pattern: string): boolean {
+  if (!pattern.includes('*')) {
+    return name === pattern;
+  }
+  
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`).test(name);
+}
+
+function matchesAnyPattern(name: string, patterns: string[] | undefined): boolean {
+  return Boolean(patterns && patterns.some(pattern => matchesNamePattern(name, pattern)));
+}
+
+/**
+ * Apply ignoreQueryParams / sortQueryParams to the URL used in the cache key
+ */
+function normalizeUrlForCacheKey(url: string, options?: CacheKeyOptions): string {
+  if (!options?.ignoreQueryParams?.length && !options?.sortQueryParams) {
+    return url;
+  }
+  
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !matchesAnyPattern(name, options.ignoreQueryParams));
+  
+  if (options.sortQueryParams) {
+    params.sort(([nameA, valueA], [nameB, valueB]) =>
+      nameA === nameB ? (valueA < valueB ? -1 : valueA > valueB ? 1 : 0) : (nameA < nameB ? -1 : 1)
+    );
+  }
+  
+  parsed.search = new URLSearchParams(params).toString();
+  return parsed.toString();
+}
+
+/**
+ * Request headers that identify the caller
+ * Left out of the key for next.scope: 'public', folded into it for next.scope: 'user'
+ */
+const IDENTITY_HEADERS = ['authorization', 'proxy-authorization', 'cookie'];
+
+/**
+ * Fold the caller's identity (credentials and cookies) into a cache key for next.scope: 'user'
+ * Cookie include/exclude lists select which cookies identify the user (e.g. only the session cookie)
+ */
+async function foldIdentityIntoKey(
+  cacheKey: string,
+  requestHeaders: Record<string, string>,
+  keyOptions?: CacheKeyOptions | CacheKeyFunction
+): Promise<string> {
+  const identity = IDENTITY_HEADERS.map(name => {
+    const value = requestHeaders[name] ?? '';
+    return name === 'cookie' && value && typeof keyOptions === 'object'
+      ? filterCookiesForCacheKey(value, keyOptions)
+      : value;
+  });
+  return sha256(JSON.stringify([cacheKey, 'user', identity]));
+}
+
+/**
+ * Keep only the cookies selected by includeCookies / excludeCookies
+ */
+function filterCookiesForCacheKey(cookieHeader: string, options: CacheKeyOptions): string {
+  return cookieHeader
+    .split(';')
+    .map(cookie => cookie.trim())
+    .filter(cookie => {
+      if (!cookie) return false;
+      const name = cookie.split('=', 1)[0].trim();
+      if (options.includeCookies && !matchesAnyPattern(name, options.includeCookies)) return false;
+      return !matchesAnyPattern(name, options.excludeCookies);
+    })
+    .join('; ');
+}
+
+/**
+ * Apply header and cookie include/exclude lists to the headers used in the cache key
+ */
+function filterHeadersForCacheKey(
+  headers: Record<string, string>,
+  options?: CacheKeyOptions
+): Record<string, string> {
+  if (!options) return headers;
+  
+  const includeHeaders = options.includeHeaders?.map(name => name.toLowerCase());
+  const excludeHeaders = options.excludeHeaders?.map(name => name.toLowerCase());
+  const filtered: Record<string, string> = {};
+  
+  Object.entries(headers).forEach(([key, value]) => {
+    if (includeHeaders && !matchesAnyPattern(key, includeHeaders)) return;
+    if (matchesAnyPattern(key, excludeHeaders)) return;
+    
+    if (key === 'cookie' && (options.includeCookies || options.excludeCookies)) {
+      const cookies = filterCookiesForCacheKey(value, options);
+      if (cookies) {
+        filtered[key] = cookies;
+      }
+      return;
+    }
+    
+    filtered[key] = value;
+  });
+  
+  return filtered;
+}
+
+/**
+ * Generate SHA-256 hash of raw bytes
+ */
+async function sha256Bytes(data: Uint8Array): Promise<string> {
   // Check if we're in Edge runtime (crypto.subtle is available)
   if (typeof crypto !== 'undefined' && crypto.subtle && crypto.subtle.digest) {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(message);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+    const hashBuffer = await crypto.subtle.digest('SHA-256', data as unknown as ArrayBuffer);
     const hashArray = Array.from(new Uint8Array(hashBuffer));
     return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
   }
@@ -150,9 +369,24 @@ async function sha256(message: string): Promise<string> {
   // Node.js runtime
   // @ts-ignore - crypto module is available in Node.js
   const { createHash } = await import('crypto');
-  return createHash('sha256').update(message).digest('hex');
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Generate SHA-256 hash of a string
+ */
+async function sha256(message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  return sha256Bytes(encoder.encode(message));
 }
 
+/**
+ * Version prefix of every cache key
+ * Only bump this when the key layout changes. Stored entries are upgraded in place
+ * on read (see CACHE_ENTRY_VERSION), so entry format changes keep existing keys.
+ */
+const CACHE_KEY_VERSION = 'v1';
+
 /**
  * Generate a cache key matching Next.js fetch cache behavior
  */
@@ -160,23 +394,31 @@ async function generateCacheKey(
   input: RequestInfo | URL,
   init?: RequestInit,
   fetchCacheKeyPrefix?: string,
-  preprocessedBodyChunks?: any[]
+  preprocessedBodyChunks?: any[],
+  headersForKey?: Record<string, string>,
+  keyOptions?: CacheKeyOptions | CacheKeyFunction
 ): Promise<string> {
   // Extract URL and create Request object for consistent processing
   const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
   const request = new Request(url, init);
   
+  // Custom key builder: hash its result so keys stay uniform and prefixed
+  if (typeof keyOptions === 'function') {
+    const customKey = await keyOptions(request);
+    return sha256(JSON.stringify([CACHE_KEY_VERSION, fetchCacheKeyPrefix || '', 'custom', customKey]));
+  }
+  
   // Process body
   const bodyChunks = preprocessedBodyChunks ?? (await processBodyForCacheKey(init?.body)).chunks;
   
   // Process headers (removing trace context headers)
-  const headers = processHeadersForCacheKey(init?.headers);
+  const headers = headersForKey ?? filterHeadersForCacheKey(processHeadersForCacheKey(init?.headers), keyOptions);
   
   // Build cache key components in exact order
   const keyComponents = [
-    'v1', // Version prefix
+    CACHE_KEY_VERSION, // Version prefix
     fetchCacheKeyPrefix || '',
-    url,
+    normalizeUrlForCacheKey(url, keyOptions),
     request.method,
     headers,
     request.mode || '',
@@ -206,6 +448,49 @@ function isCacheEntryExpired(entry: CacheEntry): boolean {
   return Date.now() > entry.expiresAt;
 }
 
+/**
+ * Check if an expired cache entry may still be served because origin failed
+ */
+function isUsableOnError(entry: CacheEntry): boolean {
+  if (!entry.staleIfErrorUntil) {
+    return false;
+  }
+  
+  return Date.now() <= entry.staleIfErrorUntil;
+}
+
+/**
+ * Default origin status codes that trigger stale-if-error
+ */
+const DEFAULT_STALE_IF_ERROR_STATUSES = [500, 502, 503, 504];
+
+/**
+ * Request methods whose responses are cached unless next.cacheableMethods is set
+ */
+const DEFAULT_CACHEABLE_METHODS = ['GET', 'POST', 'PUT'];
+
+/**
+ * Statuses whose responses never carry a body
+ */
+const NULL_BODY_STATUSES = [101, 103, 204, 205, 304];
+
+/**
+ * Check if responses to a request method may be cached
+ */
+function isCacheableMethod(method: string, options?: CachedFetchOptions): boolean {
+  const methods = options?.next?.cacheableMethods ?? DEFAULT_CACHEABLE_METHODS;
+  return methods.some(allowed => allowed.toUpperCase() === method);
+}
+
+/**
+ * Check if a response status may be cached
+ * Defaults to any 2xx status when next.cacheableStatuses is not set
+ */
+function isCacheableStatus(status: number, options?: CachedFetchOptions): boolean {
+  const statuses = options?.next?.cacheableStatuses;
+  return statuses ? statuses.includes(status) : status >= 200 && status < 300;
+}
+
 /**
  * Check if a cache entry needs revalidation
  */
@@ -219,36 +504,64 @@ function needsRevalidation(entry: CacheEntry): boolean {
 }
 
 /**
- * Convert a Response object to a serializable cache entry
+ * Shorten an entry's lifetimes by a random fraction of up to `jitter`
+ * so entries written at the same time don't all go stale or expire together
  */
-async function responseToCache(response: Response, options?: CachedFetchOptions): Promise<CacheEntry> {
-  const headers: Record<string, string> = {};
-  response.headers.forEach((value, key) => {
-    headers[key.toLowerCase()] = value;
-  });
+function applyJitter(
+  times: { revalidateAfter?: number; expiresAt?: number },
+  now: number,
+  jitter?: number
+): { revalidateAfter?: number; expiresAt?: number } {
+  if (typeof jitter !== 'number' || jitter <= 0) return times;
   
-  const contentType = response.headers.get('content-type') || '';
-  const shouldTreatAsText = /^(text\/|application\/(json|javascript|xml|x-www-form-urlencoded)|image\/svg\+xml)/i.test(contentType);
-  let data: string;
-  let isBinary = false;
-  if (shouldTreatAsText) {
-    data = await response.text();
-  } else {
-    const buffer = await response.arrayBuffer();
-    const bytes = new Uint8Array(buffer);
-    data = toBase64(bytes);
-    isBinary = true;
+  // One factor per entry keeps revalidateAfter before expiresAt
+  const factor = 1 - Math.random() * Math.min(jitter, 1);
+  const scale = (time?: number) => time === undefined ? undefined : now + Math.floor((time - now) * factor);
+  return { revalidateAfter: scale(times.revalidateAfter), expiresAt: scale(times.expiresAt) };
+}
+
+/**
+ * Decide whether to refresh a fresh entry ahead of time (XFetch)
+ * The closer the entry is to going stale, and the slower its origin, the more likely an early refresh.
+ * beta > 1 favors earlier refreshes, beta < 1 later ones.
+ */
+function shouldRefreshEarly(entry: CacheEntry, beta: number): boolean {
+  const refreshAt = entry.revalidateAfter ?? entry.expiresAt;
+  if (refreshAt === undefined || typeof entry.originLatency !== 'number' || beta <= 0) {
+    return false;
   }
-  const now = Date.now();
   
-  // Calculate revalidation and expiry times
+  return Date.now() - entry.originLatency * beta * Math.log(Math.random()) >= refreshAt;
+}
+
+/**
+ * Calculate revalidation and expiry times for an entry stored at `now`
+ */
+function computeFreshness(
+  status: number,
+  headers: Headers,
+  options: CachedFetchOptions | undefined,
+  now: number
+): { revalidateAfter?: number; expiresAt?: number; staleIfErrorUntil?: number } {
   let revalidateAfter: number | undefined;
   let expiresAt: number | undefined;
+  let staleIfErrorUntil: number | undefined;
+  
+  // Negative results (4xx/5xx) expire after their own, usually shorter, TTL without a stale window
+  const negativeTtl = options?.next?.negativeTtl;
+  if (status >= 400 && typeof negativeTtl === 'number' && negativeTtl > 0) {
+    return applyJitter({ expiresAt: now + (negativeTtl * 1000) }, now, options?.next?.jitter);
+  }
   
   const revalidate = options?.next?.revalidate;
   const expires = options?.next?.expires;
+  const originPolicy = options?.next?.respectCacheControl ? getOriginCachePolicy(headers) : undefined;
   
-  if (revalidate === false) {
+  if (originPolicy?.freshness !== undefined) {
+    // Freshness from origin Cache-Control / Expires, stale window from stale-while-revalidate
+    revalidateAfter = now + (originPolicy.freshness * 1000);
+    expiresAt = revalidateAfter + (originPolicy.staleWhileRevalidate * 1000);
+  } else if (revalidate === false) {
     // Never revalidate, but set a default expiry of 365 days
     expiresAt = now + (365 * 24 * 60 * 60 * 1000);
   } else if (typeof revalidate === 'number' && revalidate > 0) {
@@ -264,7 +577,139 @@ async function responseToCache(response: Response, options?: CachedFetchOptions)
     }
   }
   
+  // Spread out when entries written at the same time go stale and expire
+  ({ revalidateAfter, expiresAt } = applyJitter({ revalidateAfter, expiresAt }, now, options?.next?.jitter));
+  
+  // Keep expired entries around as a fallback for origin failures
+  const staleIfError = options?.next?.staleIfError ?? originPolicy?.staleIfError;
+  if (expiresAt !== undefined && typeof staleIfError === 'number' && staleIfError > 0) {
+    staleIfErrorUntil = expiresAt + (staleIfError * 1000);
+  }
+  
+  return { revalidateAfter, expiresAt, staleIfErrorUntil };
+}
+
+/**
+ * Read a response body, giving up once it grows beyond maxBytes
+ * Returns null (and cancels the stream) when the body is too large to cache
+ */
+async function readBodyWithLimit(response: Response, maxBytes?: number): Promise<Uint8Array | null> {
+  if (maxBytes === undefined) {
+    return new Uint8Array(await response.arrayBuffer());
+  }
+  
+  // Skip reading entirely when the origin announces an oversized body
+  const contentLength = Number(response.headers.get('content-length'));
+  if (Number.isFinite(contentLength) && contentLength > maxBytes) {
+    await response.body?.cancel().catch(() => {});
+    return null;
+  }
+  
+  if (!response.body) {
+    return new Uint8Array(0);
+  }
+  
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let totalLength = 0;
+  
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (!value) continue;
+    
+    totalLength += value.length;
+    if (totalLength > maxBytes) {
+      await reader.cancel().catch(() => {});
+      return null;
+    }
+    chunks.push(value);
+  }
+  
+  const combined = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    combined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return combined;
+}
+
+/**
+ * Default minimum body size (in bytes) worth compressing
+ */
+const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+/**
+ * Compress bytes with CompressionStream
+ */
+async function compressBytes(bytes: Uint8Array, format: CacheCompression): Promise<Uint8Array> {
+  const stream = new Blob([bytes as unknown as ArrayBuffer]).stream().pipeThrough(new CompressionStream(format));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Check if a response header must not be written to the cache
+ * Set-Cookie is always stripped unless next.allowSetCookie is set
+ */
+function isStrippedHeader(name: string, options?: CachedFetchOptions): boolean {
+  if (name === 'set-cookie' && options?.next?.allowSetCookie !== true) {
+    return true;
+  }
+  const stripHeaders = options?.next?.stripHeaders?.map(header => header.toLowerCase());
+  return matchesAnyPattern(name, stripHeaders);
+}
+
+/**
+ * Convert a Response object to a serializable cache entry
+ * Resolves to null when the body exceeds next.maxCacheableBytes
+ */
+async function responseToCache(
+  response: Response,
+  options?: CachedFetchOptions,
+  compression?: { format?: CacheCompression; threshold?: number },
+  originLatency?: number
+): Promise<CacheEntry | null> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    const lowerKey = key.toLowerCase();
+    if (!isStrippedHeader(lowerKey, options)) {
+      headers[lowerKey] = value;
+    }
+  });
+  
+  const bytes = await readBodyWithLimit(response, options?.next?.maxCacheableBytes);
+  if (!bytes) {
+    return null;
+  }
+  
+  const contentType = response.headers.get('content-type') || '';
+  const shouldTreatAsText = /^(text\/|application\/(json|javascript|xml|x-www-form-urlencoded)|image\/svg\+xml)/i.test(contentType);
+  let data: string;
+  let isBinary = false;
+  let compressionFormat: CacheCompression | undefined;
+  if (
+    compression?.format &&
+    typeof CompressionStream !== 'undefined' &&
+    bytes.length >= (compression.threshold ?? DEFAULT_COMPRESSION_THRESHOLD)
+  ) {
+    // Compressed bodies are always stored as base64, isBinary describes the decompressed body
+    data = toBase64(await compressBytes(bytes, compression.format));
+    isBinary = !shouldTreatAsText;
+    compressionFormat = compression.format;
+  } else if (shouldTreatAsText) {
+    data = new TextDecoder().decode(bytes);
+  } else {
+    data = toBase64(bytes);
+    isBinary = true;
+  }
+  const now = Date.now();
+  
+  // Calculate revalidation and expiry times
+  const { revalidateAfter, expiresAt, staleIfErrorUntil } = computeFreshness(response.status, response.headers, options, now);
+  
   return {
+    version: CACHE_ENTRY_VERSION,
     data,
     headers,
     status: response.status,
@@ -272,46 +717,166 @@ async function responseToCache(response: Response, options?: CachedFetchOptions)
     timestamp: now,
     revalidateAfter,
     expiresAt,
+    staleIfErrorUntil,
     tags: options?.next?.tags,
     isBinary,
     contentType: contentType || undefined,
+    compression: compressionFormat,
+    originLatency,
   };
 }
 
 /**
- * Convert a cache entry back to a Response object with cache status headers
+ * Headers a request is sent with
+ * Headers passed in init replace those of a Request input, so start from the Request's own headers
  */
-function cacheToResponse(entry: CacheEntry, cacheStatus: 'HIT' | 'STALE' = 'HIT'): Response {
-  const headers = new Headers(entry.headers);
-  headers.delete('content-length');
-  if (entry.contentType && !headers.get('content-type')) {
-    headers.set('content-type', entry.contentType);
+function mergeRequestHeaders(input: RequestInfo | URL, init: RequestInit): Headers {
+  const headers = new Headers(input instanceof Request ? input.headers : undefined);
+  new Headers(init.headers).forEach((value, key) => {
+    headers.set(key, value);
+  });
+  return headers;
+}
+
+/**
+ * Build request headers for conditional revalidation of a cached entry
+ * Returns undefined when the entry has no validators (ETag / Last-Modified)
+ */
+function buildConditionalHeaders(
+  input: RequestInfo | URL,
+  init: RequestInit,
+  entry: CacheEntry
+): Headers | undefined {
+  const etag = entry.headers['etag'];
+  const lastModified = entry.headers['last-modified'];
+  if (!etag && !lastModified) return undefined;
+  
+  const headers = mergeRequestHeaders(input, init);
+  if (etag) {
+    headers.set('If-None-Match', etag);
   }
+  if (lastModified) {
+    headers.set('If-Modified-Since', lastModified);
+  }
+  
+  return headers;
+}
+
+/**
+ * Refresh a cached entry after the origin answered a conditional request with 304 Not Modified
+ * Keeps the stored body, merges the updated response headers and restarts the freshness clock
+ */
+function refreshNotModifiedEntry(
+  entry: CacheEntry,
+  notModified: Response,
+  options?: CachedFetchOptions
+): CacheEntry {
+  const headers = { ...entry.headers };
+  notModified.headers.forEach((value, key) => {
+    const lowerKey = key.toLowerCase();
+    // A 304 has no body, so its framing headers don't describe the stored one
+    if (
+      lowerKey !== 'content-length' &&
+      lowerKey !== 'content-type' &&
+      lowerKey !== 'content-encoding' &&
+      !isStrippedHeader(lowerKey, options)
+    ) {
+      headers[lowerKey] = value;
+    }
+  });
   
-  // Add cache status headers
   const now = Date.now();
-  const cacheAge = Math.floor((now - entry.timestamp) / 1000);
-  headers.set('X-Cache-Status', cacheStatus);
-  headers.set('X-Cache-Age', cacheAge.toString());
+  const { revalidateAfter, expiresAt, staleIfErrorUntil } = computeFreshness(entry.status, new Headers(headers), options, now);
+  
+  return {
+    ...entry,
+    headers,
+    timestamp: now,
+    revalidateAfter,
+    expiresAt,
+    staleIfErrorUntil,
+  };
+}
+
+/**
+ * Replace a response body with the JSON of next.transform's result
+ * Only responses with a cacheable status are transformed; others (e.g. 304s and failures) pass through
+ */
+async function applyTransform(response: Response, options?: CachedFetchOptions): Promise<Response> {
+  const transform = options?.next?.transform;
+  if (!transform || !isCacheableStatus(response.status, options) || NULL_BODY_STATUSES.includes(response.status)) {
+    return response;
+  }
   
-  if (entry.expiresAt) {
-    const expiresIn = Math.max(0, Math.floor((entry.expiresAt - now) / 1000));
-    headers.set('X-Cache-Expires-In', expiresIn.toString());
+  const value = await transform(response);
+  const headers = new Headers(response.headers);
+  headers.delete('content-length');
+  headers.delete('content-encoding');
+  headers.set('content-type', 'application/json');
+  
+  return new Response(JSON.stringify(value ?? null), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/**
+ * Cache entries behind responses served from the cache, so JSON helpers can skip re-reading the body
+ */
+const entryByResponse = new WeakMap<Response, CacheEntry>();
+
+/**
+ * Parsed JSON per entry object; entries served from the memory cache are parsed only once
+ * Callers receive structured clones, so one caller's mutations never reach another.
+ */
+const parsedJsonByEntry = new WeakMap<CacheEntry, unknown>();
+
+/**
+ * Cache status reported for responses returned by cachedFetch, whatever the configured header names
+ */
+const summaryByResponse = new WeakMap<Response, CacheResponseSummary>();
+
+/**
+ * Add the configured cache headers to a response
+ */
+function withCacheHeaders(response: Response, info: CacheResponseInfo, options?: CacheResponseHeaderOptions): Response {
+  summaryByResponse.set(response, setCacheResponseHeaders(response.headers, info, options));
+  return response;
+}
+
+/**
+ * Convert a cache entry back to a Response object
+ * Cache headers are added by withCacheHeaders
+ */
+function cacheToResponse(entry: CacheEntry): Response {
+  const headers = new Headers(entry.headers);
+  headers.delete('content-length');
+  if (entry.contentType && !headers.get('content-type')) {
+    headers.set('content-type', entry.contentType);
   }
   
   let body: BodyInit | null = null;
-  if ((entry as any).isBinary) {
+  if (NULL_BODY_STATUSES.includes(entry.status)) {
+    body = null;
+  } else if (entry.compression) {
+    // Decompress while streaming the body out
+    const bytes = fromBase64(entry.data as string);
+    body = new Blob([bytes as unknown as ArrayBuffer]).stream().pipeThrough(new DecompressionStream(entry.compression));
+  } else if (entry.isBinary) {
     const bytes = fromBase64(entry.data as string);
     const ab = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as unknown as ArrayBuffer;
     body = ab;
   } else {
     body = entry.data as string;
   }
-  return new Response(body, {
+  const response = new Response(body, {
     status: entry.status,
     statusText: entry.statusText,
     headers,
   });
+  entryByResponse.set(response, entry);
+  return response;
 }
 
 /**
@@ -335,36 +900,20 @@ function cleanFetchOptions(options?: CachedFetchOptions): RequestInit | undefine
   return cleanOptions;
 }
 
-function toBase64(bytes: Uint8Array): string {
-  // @ts-ignore - Buffer may be available in Node runtime
-  if (typeof Buffer !== 'undefined') {
-    // @ts-ignore
-    return Buffer.from(bytes).toString('base64');
-  }
-  let binary = '';
-  const chunkSize = 0x8000;
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    const chunk = bytes.subarray(i, i + chunkSize);
-    binary += String.fromCharCode(...chunk);
-  }
-  // @ts-ignore - btoa available in Edge/Web runtimes
-  return btoa(binary);
-}
-
-function fromBase64(b64: string): Uint8Array {
-  // @ts-ignore - Buffer may be available in Node runtime
-  if (typeof Buffer !== 'undefined') {
-    // @ts-ignore
-    return new Uint8Array(Buffer.from(b64, 'base64'));
-  }
-  // @ts-ignore - atob available in Edge/Web runtimes
-  const binary = atob(b64);
-  const len = binary.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) bytes[i] = binary.charCodeAt(i);
-  return bytes;
+/**
+ * Clean fetch options and normalize the request method to uppercase
+ * Without an init method, the method of a Request input is kept.
+ */
+function prepareFetchOptions(input: RequestInfo | URL, options?: CachedFetchOptions): RequestInit {
+  const cleanOptions = cleanFetchOptions(options) || {};
+  const method = cleanOptions.method ?? (input instanceof Request ? input.method : 'GET');
+  cleanOptions.method = String(method).toUpperCase();
+  return cleanOptions;
 }
 
+/**
+ * Compute the store TTL (in seconds) for an entry that must be kept until the given timestamp
+ */
 function computeTTL(expiresAt?: number): number {
   if (!expiresAt) return 86400;
   const ttl = Math.floor((expiresAt - Date.now()) / 1000);
@@ -372,21 +921,456 @@ function computeTTL(expiresAt?: number): number {
 }
 
 /**
- * A fetch wrapper that uses Vercel Runtime Cache for caching
- * Mimics Next.js Data Cache API for use in edge middleware
+ * Prefix for chunk records of entries split across multiple cache values
  */
-export async function cachedFetch(
-  input: RequestInfo | URL,
-  init?: CachedFetchOptions
-): Promise<Response> {
-  const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
-  const cleanOptions = cleanFetchOptions(init) || {};
-  const method = (cleanOptions.method ? String(cleanOptions.method) : 'GET').toUpperCase();
-  cleanOptions.method = method;
-  
-  // Determine cache behavior
-  const cacheOption = init?.cache || 'auto no cache';
-  const revalidate = init?.next?.revalidate;
+const CHUNK_KEY_PREFIX = 'cached-middleware-fetch:chunk:';
+
+function getChunkKey(cacheKey: string, id: string, index: number): string {
+  return `${CHUNK_KEY_PREFIX}${cacheKey}:${id}:${index}`;
+}
+
+/**
+ * Read a cache entry, migrating it to the current schema and reassembling chunked entries
+ * Resolves to undefined when nothing is stored or any chunk is missing,
+ * and to null when the stored value is not a valid entry
+ */
+async function readCacheEntry(cache: CacheStore, cacheKey: string): Promise<CacheEntry | null | undefined> {
+  const storedValue = await cache.get(cacheKey);
+  if (!storedValue) return undefined;
+  
+  const entry = migrateCacheEntry(storedValue);
+  if (!entry) {
+    verboseLog(`Stored value is not a valid cache entry (malformed, foreign or written by a newer version)`);
+    return null;
+  }
+  if (!entry.chunks) return entry;
+  
+  const { id, count } = entry.chunks;
+  const chunks = await Promise.all(
+    Array.from({ length: count }, (_, index) => cache.get(getChunkKey(cacheKey, id, index)))
+  );
+  if (chunks.some(chunk => typeof chunk !== 'string')) {
+    verboseLog(`Chunked entry incomplete (${count} chunks), treating as missing`);
+    return undefined;
+  }
+  
+  const { chunks: _manifest, ...rest } = entry;
+  return { ...rest, data: chunks.join('') };
+}
+
+/**
+ * Write a cache entry, splitting its data into chunk records when larger than chunkSize
+ * Chunks are written before the manifest so readers never see a partial entry
+ */
+async function writeCacheEntry(
+  cache: CacheStore,
+  cacheKey: string,
+  entry: CacheEntry,
+  ttl: number,
+  chunkSize?: number
+): Promise<void> {
+  const data = entry.data as string;
+  if (!chunkSize || chunkSize <= 0 || typeof data !== 'string' || data.length <= chunkSize) {
+    await cache.set(cacheKey, entry, { ttl });
+    return;
+  }
+  
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  const count = Math.ceil(data.length / chunkSize);
+  await Promise.all(
+    Array.from({ length: count }, (_, index) =>
+      cache.set(getChunkKey(cacheKey, id, index), data.slice(index * chunkSize, (index + 1) * chunkSize), { ttl })
+    )
+  );
+  
+  const manifest: CacheEntry = { ...entry, data: '', chunks: { id, count } };
+  await cache.set(cacheKey, manifest, { ttl });
+  verboseLog(`Stored entry in ${count} chunks of up to ${chunkSize} characters`);
+}
+
+/**
+ * Keep a task running after the response has been returned
+ * Uses the configured waitUntil, else waitUntil from @vercel/functions to extend
+ * the request lifetime on Vercel, fire-and-forget elsewhere
+ */
+function runInBackground(
+  task: Promise<unknown>,
+  customWaitUntil?: (promise: Promise<unknown>) => void
+): 'waitUntil' | 'fire-and-forget' {
+  if (customWaitUntil) {
+    customWaitUntil(task);
+    return 'waitUntil';
+  }
+  if (typeof waitUntil === 'function') {
+    waitUntil(task);
+    return 'waitUntil';
+  }
+  
+  // Fallback if waitUntil is not available (non-Vercel environment)
+  task.catch(() => {});
+  return 'fire-and-forget';
+}
+
+/**
+ * Prefix for tag revalidation records stored in the cache next to entries
+ */
+const TAG_KEY_PREFIX = 'cached-middleware-fetch:tag:';
+
+/**
+ * Tag records must outlive every entry they can invalidate
+ * (entries cached with revalidate: false are kept for 365 days)
+ */
+const TAG_RECORD_TTL = 365 * 24 * 60 * 60;
+
+function getTagKey(tag: string): string {
+  return `${TAG_KEY_PREFIX}${tag}`;
+}
+
+/**
+ * Check if any of the entry's tags was revalidated after the entry was written
+ */
+async function isInvalidatedByTags(cache: CacheStore, entry: CacheEntry, memoryCache?: MemoryCache): Promise<boolean> {
+  if (!entry.tags || entry.tags.length === 0) {
+    return false;
+  }
+  
+  const revalidatedAts = await Promise.all(entry.tags.map(async tag => {
+    const remembered = memoryCache?.getTagRevalidatedAt(tag);
+    if (remembered !== undefined) return remembered;
+    
+    const record = await cache.get(getTagKey(tag)) as TagRevalidationRecord | null | undefined;
+    const revalidatedAt = typeof record?.revalidatedAt === 'number' ? record.revalidatedAt : null;
+    memoryCache?.setTagRevalidatedAt(tag, revalidatedAt);
+    return revalidatedAt;
+  }));
+  
+  return revalidatedAts.some(revalidatedAt => revalidatedAt !== null && revalidatedAt >= entry.timestamp);
+}
+
+/**
+ * Invalidate every cache entry in the store written with any of the given tags
+ * Matching entries are treated as a cache MISS on their next lookup
+ */
+async function revalidateTagsInStore(cache: CacheStore, tags: string[], memoryCache?: MemoryCache): Promise<void> {
+  const uniqueTags = Array.from(new Set(tags));
+  if (uniqueTags.length === 0) return;
+  
+  const record: TagRevalidationRecord = { revalidatedAt: Date.now() };
+  uniqueTags.forEach(tag => memoryCache?.setTagRevalidatedAt(tag, record.revalidatedAt));
+  
+  verboseLog(`Revalidating tags: ${uniqueTags.join(', ')}`);
+  await Promise.all(
+    uniqueTags.map(tag => cache.set(getTagKey(tag), record, { ttl: TAG_RECORD_TTL }))
+  );
+}
+
+/**
+ * Prefix for Vary records stored in the cache next to entries
+ */
+const VARY_KEY_PREFIX = 'cached-middleware-fetch:vary:';
+
+function getVaryKey(baseKey: string): string {
+  return `${VARY_KEY_PREFIX}${baseKey}`;
+}
+
+/**
+ * Fold the request headers named by Vary into a base cache key
+ */
+async function getVariantKey(
+  baseKey: string,
+  varyHeaders: string[],
+  requestHeaders: Record<string, string>
+): Promise<string> {
+  if (varyHeaders.length === 0) return baseKey;
+  
+  const selectedHeaders = varyHeaders.map(name => [name, requestHeaders[name] ?? '']);
+  return sha256(JSON.stringify([baseKey, selectedHeaders]));
+}
+
+/**
+ * Keys identifying a request in the cache
+ */
+interface RequestKeys {
+  requestKey: string; // Full request key
+  coalesceKey: string; // Request key that always includes the caller's identity, shared by concurrent origin requests
+  baseKey: string; // Key Vary variants are derived from (without request headers under respectCacheControl)
+  requestHeaders: Record<string, string>;
+}
+
+/**
+ * Compute the cache keys for a request
+ * Stream bodies are consumed for hashing and replaced in cleanOptions with a replayable copy
+ */
+async function computeRequestKeys(
+  input: RequestInfo | URL,
+  cleanOptions: RequestInit,
+  init?: CachedFetchOptions
+): Promise<RequestKeys> {
+  // A Request input carries its own body unless init replaces it; hash a clone so it can still be sent
+  const body = init?.body == null && input instanceof Request && input.body
+    ? new Uint8Array(await input.clone().arrayBuffer())
+    : init?.body;
+  const { chunks: bodyChunks, ogBody } = await processBodyForCacheKey(body);
+  if (ogBody !== undefined) {
+    cleanOptions.body = ogBody;
+  }
+  const keyOptions = init?.next?.cacheKey;
+  const scope = init?.next?.scope;
+  // Vary and identity headers may also come from a Request input
+  const requestHeaders = processHeadersForCacheKey(mergeRequestHeaders(input, cleanOptions));
+  
+  // Identity headers are never part of the key itself once a scope is chosen
+  let headersForKey: Record<string, string> | undefined;
+  if (scope) {
+    const initHeaders = processHeadersForCacheKey(cleanOptions.headers);
+    headersForKey = { ...filterHeadersForCacheKey(initHeaders, typeof keyOptions === 'object' ? keyOptions : undefined) };
+    IDENTITY_HEADERS.forEach(name => delete headersForKey![name]);
+  }
+  
+  let requestKey = await generateCacheKey(
+    input,
+    cleanOptions,
+    init?.next?.fetchCacheKeyPrefix,
+    bodyChunks,
+    headersForKey,
+    keyOptions
+  );
+  
+  // With respectCacheControl, request headers only enter the key through the origin's Vary header
+  let baseKey = init?.next?.respectCacheControl === true
+    ? await generateCacheKey(input, cleanOptions, init?.next?.fetchCacheKeyPrefix, bodyChunks, {}, keyOptions)
+    : requestKey;
+  
+  if (scope === 'user') {
+    const userRequestKey = await foldIdentityIntoKey(requestKey, requestHeaders, keyOptions);
+    baseKey = baseKey === requestKey ? userRequestKey : await foldIdentityIntoKey(baseKey, requestHeaders, keyOptions);
+    requestKey = userRequestKey;
+  }
+  
+  // Transformed entries hold a different body than the origin response, so they never share its key.
+  // Closures with the same source can capture different values, so the caller names each transform.
+  const transform = init?.next?.transform;
+  if (transform) {
+    const transformKey = init?.next?.transformKey;
+    if (!transformKey) {
+      throw new TypeError('[cached-middleware-fetch] next.transform needs a next.transformKey identifying it in the cache key');
+    }
+    // The source is included too, so an edited transform doesn't reuse entries of the old one
+    const transformId = [transformKey, transform.toString()];
+    const transformedRequestKey = await sha256(JSON.stringify([requestKey, 'transform', transformId]));
+    baseKey = baseKey === requestKey
+      ? transformedRequestKey
+      : await sha256(JSON.stringify([baseKey, 'transform', transformId]));
+    requestKey = transformedRequestKey;
+  }
+  
+  // Identity may be left out of the key (scope: 'public', excludeHeaders), but responses
+  // that are not stored can still be personal, so only callers with the same identity share them
+  const hasIdentity = IDENTITY_HEADERS.some(name => requestHeaders[name] !== undefined);
+  const coalesceKey = hasIdentity && scope !== 'user' ? await foldIdentityIntoKey(requestKey, requestHeaders) : requestKey;
+  
+  return { requestKey, coalesceKey, baseKey, requestHeaders };
+}
+
+/**
+ * Resolve the key a request's entry is looked up under
+ * With respectCacheControl, reads the Vary record stored for the request
+ */
+async function lookupStorageKey(cache: CacheStore, keys: RequestKeys, respectCacheControl: boolean): Promise<string> {
+  if (!respectCacheControl) return keys.requestKey;
+  
+  const varyRecord = await cache.get(getVaryKey(keys.baseKey)) as VaryRecord | null | undefined;
+  const varyHeaders = Array.isArray(varyRecord?.headers) ? varyRecord!.headers : [];
+  const variantKey = await getVariantKey(keys.baseKey, varyHeaders, keys.requestHeaders);
+  verboseLog(`Resolved cache key from Vary (${varyHeaders.join(', ') || 'none'}): ${variantKey}`);
+  return variantKey;
+}
+
+/**
+ * Resolve the key an origin response is stored under
+ * With respectCacheControl, records the response's Vary headers so later lookups compute the same key
+ */
+async function getResponseStorageKey(
+  cache: CacheStore,
+  keys: RequestKeys,
+  response: Response,
+  ttl: number,
+  respectCacheControl: boolean
+): Promise<string> {
+  if (!respectCacheControl) return keys.requestKey;
+  
+  const vary = parseVary(response.headers.get('vary'));
+  const varyRecord: VaryRecord = { headers: vary === '*' ? [] : vary };
+  await cache.set(getVaryKey(keys.baseKey), varyRecord, { ttl });
+  return getVariantKey(keys.baseKey, varyRecord.headers, keys.requestHeaders);
+}
+
+/**
+ * Prefix for refresh lock records stored in the cache next to entries
+ */
+const LOCK_KEY_PREFIX = 'cached-middleware-fetch:lock:';
+
+/**
+ * Refresh locks expire on their own if the holder never releases them
+ */
+const REFRESH_LOCK_TTL = 60;
+
+function getRefreshLockKey(cacheKey: string): string {
+  return `${LOCK_KEY_PREFIX}${cacheKey}`;
+}
+
+/**
+ * Try to acquire the cross-instance refresh lock for a cache key
+ * Best-effort only: the store has no atomic compare-and-set, so the lock is
+ * written and read back to detect another instance acquiring it concurrently.
+ * Returns the owner token when acquired, or null when another instance holds it.
+ */
+async function acquireRefreshLock(cache: CacheStore, cacheKey: string): Promise<string | null> {
+  const lockKey = getRefreshLockKey(cacheKey);
+  const existingLock = await cache.get(lockKey) as RefreshLockRecord | null | undefined;
+  if (
+    existingLock &&
+    typeof existingLock.lockedAt === 'number' &&
+    Date.now() - existingLock.lockedAt < REFRESH_LOCK_TTL * 1000
+  ) {
+    return null;
+  }
+  
+  const owner = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  const lock: RefreshLockRecord = { owner, lockedAt: Date.now() };
+  await cache.set(lockKey, lock, { ttl: REFRESH_LOCK_TTL });
+  
+  const storedLock = await cache.get(lockKey) as RefreshLockRecord | null | undefined;
+  return storedLock?.owner === owner ? owner : null;
+}
+
+/**
+ * Release a refresh lock if it is still held by the given owner
+ */
+async function releaseRefreshLock(cache: CacheStore, cacheKey: string, owner: string): Promise<void> {
+  const lockKey = getRefreshLockKey(cacheKey);
+  const storedLock = await cache.get(lockKey) as RefreshLockRecord | null | undefined;
+  if (storedLock?.owner === owner) {
+    await cache.delete(lockKey);
+  }
+}
+
+/**
+ * Share a single origin request between concurrent callers with the same cache key
+ * Every caller receives its own clone of the shared Response. Callers that joined a request
+ * whose response may not be shared (e.g. it sets cookies) fetch on their own instead.
+ */
+async function coalesceRequest(
+  inFlightRequests: Map<string, Promise<Response>>,
+  cacheKey: string,
+  fetcher: () => Promise<Response>,
+  isShareable: (response: Response) => boolean = () => true
+): Promise<Response> {
+  const pending = inFlightRequests.get(cacheKey);
+  
+  if (pending) {
+    verboseLog(`Joining in-flight origin request for key: ${cacheKey}`);
+    const response = await pending;
+    if (!isShareable(response)) {
+      verboseLog(`In-flight response for key ${cacheKey} may not be shared, fetching separately`);
+      return fetcher();
+    }
+    return response.clone();
+  }
+  
+  const request = fetcher();
+  const clear = () => {
+    if (inFlightRequests.get(cacheKey) === request) {
+      inFlightRequests.delete(cacheKey);
+    }
+  };
+  request.then(clear, clear);
+  inFlightRequests.set(cacheKey, request);
+  
+  const response = await request;
+  return response.clone();
+}
+
+/**
+ * Per-instance state shared by every call of a cachedFetch function
+ */
+interface CachedFetchContext {
+  config: CachedFetchConfig;
+  store: CacheStore;
+  // Optional in-process L1 tier in front of the store
+  memoryCache?: MemoryCache;
+  // Optional per-origin circuit breaker for origin requests
+  circuitBreaker?: CircuitBreaker;
+  instrumentation: Instrumentation;
+  // Origin requests currently in flight, keyed by cache key
+  inFlightRequests: Map<string, Promise<Response>>;
+  // Cache keys with a background refresh currently running in this process
+  inFlightRefreshes: Set<string>;
+  // cachedFunction computations currently running, keyed by cache key
+  inFlightComputations: Map<string, Promise<unknown>>;
+  // config.chunkSize, reduced so encrypted chunk records stay within it
+  chunkSize?: number;
+}
+
+/**
+ * Read a cache entry, serving fresh entries from the memory cache when enabled
+ */
+async function readContextEntry(context: CachedFetchContext, cacheKey: string): Promise<CacheEntry | null | undefined> {
+  const memoryEntry = context.memoryCache?.get(cacheKey);
+  if (memoryEntry) {
+    verboseLog(`Memory cache hit for key: ${cacheKey}`);
+    return memoryEntry;
+  }
+  
+  const entry = await readCacheEntry(context.store, cacheKey);
+  if (entry) {
+    context.memoryCache?.set(cacheKey, entry);
+  }
+  return entry;
+}
+
+/**
+ * A fetch wrapper that caches responses in the context's store
+ * Mimics Next.js Data Cache API for use in edge middleware
+ */
+async function cachedFetchWithContext(
+  context: CachedFetchContext,
+  input: RequestInfo | URL,
+  init?: CachedFetchOptions
+): Promise<Response> {
+  const cache = context.store;
+  const { instrumentation } = context;
+  const compression = { format: context.config.compression, threshold: context.config.compressionThreshold };
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+  const cleanOptions = prepareFetchOptions(input, init);
+  const method = cleanOptions.method as string;
+  const isMethodCacheable = isCacheableMethod(method, init);
+  
+  // Low-cardinality attributes for metrics; spans also carry the full URL and cache key
+  const route = init?.next?.route;
+  const metricAttributes: TelemetryAttributes = { 'http.request.method': method };
+  try {
+    metricAttributes['server.address'] = new URL(url).host;
+  } catch {
+    // Relative or invalid URLs are reported without a host
+  }
+  if (route) {
+    metricAttributes['http.route'] = route;
+  }
+  
+  // Timeout, retries and circuit breaker for every origin request
+  const originFetchPolicy: OriginFetchPolicy = {
+    timeoutMs: init?.next?.timeoutMs,
+    retries: init?.next?.retries,
+    retryDelayMs: init?.next?.retryDelayMs,
+    retryStatuses: init?.next?.retryStatuses,
+  };
+  const fetchOrigin = async (requestInit: RequestInit): Promise<Response> =>
+    applyTransform(await fetchWithPolicy(input, requestInit, originFetchPolicy, context.circuitBreaker), init);
+  
+  // Determine cache behavior
+  const cacheOption = init?.cache || 'auto no cache';
+  const revalidate = init?.next?.revalidate;
   
   verboseLog(`Starting cachedFetch: ${method} ${url}`, {
     cacheOption,
@@ -396,10 +1380,14 @@ export async function cachedFetch(
     fetchCacheKeyPrefix: init?.next?.fetchCacheKeyPrefix
   });
   
-  // Skip cache for no-store or revalidate: 0
-  if (cacheOption === 'no-store' || revalidate === 0) {
-    verboseLog(`Skipping cache due to ${cacheOption === 'no-store' ? 'no-store' : 'revalidate: 0'}`);
-    const response = await fetch(input, cleanOptions);
+  // Skip cache for no-store, revalidate: 0, development ('auto no cache') and draft mode
+  const bypassReason = getBypassReason(context.config.bypass, init);
+  if (cacheOption === 'no-store' || revalidate === 0 || bypassReason) {
+    verboseLog(`Skipping cache due to ${bypassReason ?? (cacheOption === 'no-store' ? 'no-store' : 'revalidate: 0')}`);
+    instrumentation.countRequest('bypass', metricAttributes);
+    const originStart = monotonicNow();
+    const response = await fetchOrigin(cleanOptions);
+    const originMs = monotonicNow() - originStart;
     
     // Clone the response to avoid body consumption issues
     const responseClone = response.clone();
@@ -410,37 +1398,135 @@ export async function cachedFetch(
       statusText: response.statusText,
       headers: new Headers(response.headers)
     });
-    responseWithCacheHeaders.headers.set('X-Cache-Status', 'MISS');
-    responseWithCacheHeaders.headers.set('X-Cache-Age', '0');
     
     verboseLog(`Response: ${response.status} ${response.statusText} (cache bypassed)`);
-    return responseWithCacheHeaders;
+    return withCacheHeaders(
+      responseWithCacheHeaders,
+      {
+        status: bypassReason ? 'BYPASS' : 'MISS',
+        forward: 'bypass',
+        forwardStatus: response.status,
+        detail: bypassReason,
+        originMs,
+      },
+      context.config.responseHeaders
+    );
   }
   
   // Generate cache key
-  const { chunks: bodyChunks, ogBody } = await processBodyForCacheKey(init?.body);
-  if (ogBody !== undefined) {
-    cleanOptions.body = ogBody;
-  }
-  const cacheKey = await generateCacheKey(input, cleanOptions, init?.next?.fetchCacheKeyPrefix, bodyChunks);
+  const requestKeys = await computeRequestKeys(input, cleanOptions, init);
+  const { requestKey, coalesceKey } = requestKeys;
+  
+  verboseLog(`Generated cache key: ${requestKey}`);
+  
+  const respectCacheControl = init?.next?.respectCacheControl === true;
+  let cacheKey = requestKey;
+  
+  // Expired entry that may still be served if origin fails (stale-if-error)
+  let staleFallback: CacheEntry | undefined;
+  // Any stored entry (even expired or invalidated), served while the circuit breaker is open
+  let circuitFallback: CacheEntry | undefined;
+  const staleIfErrorStatuses = init?.next?.staleIfErrorStatuses ?? DEFAULT_STALE_IF_ERROR_STATUSES;
+  
+  // Observability state
+  const eventBase = () => ({ key: cacheKey, url, method, route, tags: init?.next?.tags });
+  const spanAttributes = (): TelemetryAttributes => ({ ...metricAttributes, 'url.full': url, 'cache.key': cacheKey });
+  let lookupMs = 0;
+  let missReason: CacheMissEvent['reason'] = 'not-found';
+  let originFailed = false;
+  // Client-triggered refreshes skip the lookup and overwrite the entry
+  const refreshReason = getRefreshReason(context.config.bypass, init);
+  const shouldLookup = (cacheOption === 'force-cache' || cacheOption === 'auto no cache') && !refreshReason;
+  
+  /**
+   * Add the configured cache headers to a response for this request
+   */
+  const respond = (response: Response, info: Omit<CacheResponseInfo, 'key'>): Response =>
+    withCacheHeaders(response, { key: cacheKey, lookupMs: shouldLookup ? lookupMs : undefined, ...info }, context.config.responseHeaders);
+  
+  /**
+   * Write an entry to the store, tracing and reporting the write
+   */
+  const storeEntry = async (storageKey: string, entry: CacheEntry, ttl: number): Promise<void> => {
+    const storeStart = monotonicNow();
+    await instrumentation.trace('cached-fetch.store', { ...spanAttributes(), 'cache.key': storageKey }, () =>
+      writeCacheEntry(cache, storageKey, entry, ttl, context.chunkSize)
+    );
+    context.memoryCache?.set(storageKey, entry);
+    const storeMs = monotonicNow() - storeStart;
+    instrumentation.recordDuration('store', storeMs, metricAttributes);
+    instrumentation.emit('onStore', {
+      ...eventBase(),
+      key: storageKey,
+      ttl,
+      size: typeof entry.data === 'string' ? entry.data.length : 0,
+      storeMs,
+    });
+  };
   
-  verboseLog(`Generated cache key: ${cacheKey}`);
+  /**
+   * Fetch from origin inside an origin span
+   */
+  const tracedFetch = (requestInit: RequestInit): Promise<Response> =>
+    instrumentation.trace('cached-fetch.origin', spanAttributes(), () => fetchOrigin(requestInit));
   
-  // Get Vercel Runtime Cache instance
-  const cache = getCache();
+  /**
+   * Check whether an origin response may be stored, logging the reason when it may not
+   */
+  const isStorableResponse = (response: Response): boolean => {
+    if (!isCacheableStatus(response.status, init) || !isMethodCacheable) {
+      verboseLog(`Not caching response (status: ${response.status}, method: ${method})`);
+      return false;
+    }
+    if (response.headers.has('set-cookie') && init?.next?.allowSetCookie !== true) {
+      verboseLog(`Not caching response with Set-Cookie (set next.allowSetCookie to cache it)`);
+      return false;
+    }
+    if (init?.next?.scope !== 'user' && parseCacheControl(response.headers.get('cache-control')).private) {
+      verboseLog(`Not caching private response (set next.scope: 'user' to cache it per user)`);
+      return false;
+    }
+    if (respectCacheControl && !getOriginCachePolicy(response.headers, { allowPrivate: init?.next?.scope === 'user' }).storable) {
+      verboseLog(`Not caching response due to origin caching headers (cache-control: ${response.headers.get('cache-control')}, vary: ${response.headers.get('vary')})`);
+      return false;
+    }
+    return true;
+  };
+  
+  /**
+   * Check whether an origin response may be handed to concurrent callers
+   * Like the storage guardrails, responses setting cookies or marked private stay with the caller that fetched them
+   */
+  const isShareableResponse = (response: Response): boolean =>
+    (init?.next?.allowSetCookie === true || !response.headers.has('set-cookie')) &&
+    (init?.next?.scope === 'user' || !parseCacheControl(response.headers.get('cache-control')).private);
+  
+  /**
+   * Resolve the key an origin response is stored under
+   */
+  const getStorageKey = (response: Response, ttl: number): Promise<string> =>
+    getResponseStorageKey(cache, requestKeys, response, ttl, respectCacheControl);
   
   try {
+    cacheKey = await lookupStorageKey(cache, requestKeys, respectCacheControl);
+    
     // Try to get from cache first
-    if (cacheOption === 'force-cache' || cacheOption === 'auto no cache') {
+    if (shouldLookup) {
       verboseLog(`Looking up cache entry for key: ${cacheKey}`);
-      const cachedEntry = await cache.get(cacheKey) as CacheEntry | undefined;
+      const lookupStart = monotonicNow();
+      const cachedEntry = await instrumentation.trace('cached-fetch.lookup', spanAttributes(), () =>
+        readContextEntry(context, cacheKey)
+      );
+      const isInvalidated = cachedEntry
+        ? !isCacheEntryExpired(cachedEntry) && await isInvalidatedByTags(cache, cachedEntry, context.memoryCache)
+        : false;
+      lookupMs = monotonicNow() - lookupStart;
+      instrumentation.recordDuration('lookup', lookupMs, metricAttributes);
       
       if (
         cachedEntry &&
-        typeof cachedEntry.status === 'number' &&
-        cachedEntry.data !== undefined &&
-        cachedEntry.headers &&
-        !isCacheEntryExpired(cachedEntry)
+        !isCacheEntryExpired(cachedEntry) &&
+        !isInvalidated
       ) {
         const now = Date.now();
         const cacheAge = Math.floor((now - cachedEntry.timestamp) / 1000);
@@ -448,96 +1534,267 @@ export async function cachedFetch(
         
         // Check if we need to revalidate in the background
         const isStale = needsRevalidation(cachedEntry);
-        if (isStale) {
-          verboseLog(`Cache STALE (age: ${cacheAge}s, expires in: ${expiresIn}s) - triggering background refresh`);
+        const earlyRevalidation = init?.next?.earlyRevalidation;
+        const refreshEarly = !isStale && earlyRevalidation !== undefined && earlyRevalidation !== false &&
+          shouldRefreshEarly(cachedEntry, earlyRevalidation === true ? 1 : earlyRevalidation);
+        if (isStale || refreshEarly) {
+          verboseLog(isStale
+            ? `Cache STALE (age: ${cacheAge}s, expires in: ${expiresIn}s) - triggering background refresh`
+            : `Cache HIT (age: ${cacheAge}s, expires in: ${expiresIn}s) - triggering early background refresh`);
           // Return stale data immediately and refresh in background (SWR)
           const backgroundRefresh = async () => {
+            let lockOwner: string | null = null;
             try {
+              // Only one instance revalidates a stale entry at a time
+              lockOwner = await acquireRefreshLock(cache, cacheKey);
+              if (!lockOwner) {
+                verboseLog(`Background refresh skipped - another instance holds the refresh lock`);
+                instrumentation.emit('onRevalidate', { ...eventBase(), outcome: 'skipped' });
+                return;
+              }
+              
               verboseLog(`Background refresh started for: ${url}`);
-              const freshResponse = await fetch(input, cleanOptions);
+              // Revalidate conditionally when the entry has an ETag or Last-Modified validator
+              const conditionalHeaders = buildConditionalHeaders(input, cleanOptions, cachedEntry);
+              const originStart = monotonicNow();
+              const freshResponse = await tracedFetch(
+                conditionalHeaders ? { ...cleanOptions, headers: conditionalHeaders } : cleanOptions
+              );
+              const originMs = monotonicNow() - originStart;
+              const originLatency = Math.round(originMs);
+              instrumentation.recordDuration('origin', originMs, metricAttributes);
+              const revalidateEvent = { ...eventBase(), status: freshResponse.status, originMs };
               
-              if (freshResponse.ok && (method === 'GET' || method === 'POST' || method === 'PUT')) {
-                const freshCacheEntry = await responseToCache(freshResponse.clone(), init);
-                const cacheTTL = computeTTL(freshCacheEntry.expiresAt);
-                await cache.set(cacheKey, freshCacheEntry, { ttl: cacheTTL });
+              if (freshResponse.status === 304 && conditionalHeaders) {
+                const refreshedEntry = { ...refreshNotModifiedEntry(cachedEntry, freshResponse, init), originLatency };
+                const cacheTTL = computeTTL(refreshedEntry.staleIfErrorUntil ?? refreshedEntry.expiresAt);
+                await storeEntry(cacheKey, refreshedEntry, cacheTTL);
+                verboseLog(`Background refresh not modified (304), entry refreshed (TTL: ${cacheTTL}s)`);
+                instrumentation.emit('onRevalidate', { ...revalidateEvent, outcome: 'not-modified' });
+              } else if (isStorableResponse(freshResponse)) {
+                const freshCacheEntry = await responseToCache(freshResponse, init, compression, originLatency);
+                if (!freshCacheEntry) {
+                  verboseLog(`Background refresh completed but not cached (body exceeds maxCacheableBytes: ${init?.next?.maxCacheableBytes})`);
+                  instrumentation.emit('onRevalidate', { ...revalidateEvent, outcome: 'not-cached' });
+                  return;
+                }
+                const cacheTTL = computeTTL(freshCacheEntry.staleIfErrorUntil ?? freshCacheEntry.expiresAt);
+                const storageKey = await getStorageKey(freshResponse, cacheTTL);
+                await storeEntry(storageKey, freshCacheEntry, cacheTTL);
                 verboseLog(`Background refresh completed and cached (TTL: ${cacheTTL}s)`);
+                instrumentation.emit('onRevalidate', { ...revalidateEvent, outcome: 'updated' });
               } else {
                 verboseLog(`Background refresh completed but not cached (status: ${freshResponse.status}, method: ${method})`);
+                instrumentation.emit('onRevalidate', { ...revalidateEvent, outcome: 'not-cached' });
               }
             } catch (error) {
+              if (error instanceof CircuitOpenError) {
+                verboseLog(`Background refresh skipped - circuit breaker open for ${error.origin}`);
+                instrumentation.emit('onRevalidate', { ...eventBase(), outcome: 'skipped' });
+                return;
+              }
               console.error('[cached-middleware-fetch] Background refresh failed:', error);
+              instrumentation.emit('onError', { ...eventBase(), stage: 'revalidate', error });
+            } finally {
+              context.inFlightRefreshes.delete(cacheKey);
+              if (lockOwner) {
+                await releaseRefreshLock(cache, cacheKey, lockOwner).catch(() => {});
+              }
             }
           };
           
-          // Use waitUntil to extend the lifetime of the request for background refresh
-          if (typeof waitUntil === 'function') {
-            waitUntil(backgroundRefresh());
-            verboseLog(`Background refresh scheduled with waitUntil`);
+          if (context.inFlightRefreshes.has(cacheKey)) {
+            verboseLog(`Background refresh already in flight for this key`);
           } else {
-            // Fallback if waitUntil is not available (non-Vercel environment)
-            backgroundRefresh().catch(() => {});
-            verboseLog(`Background refresh scheduled as fire-and-forget (no waitUntil available)`);
+            // Use waitUntil to extend the lifetime of the request for background refresh
+            context.inFlightRefreshes.add(cacheKey);
+            const scheduling = runInBackground(backgroundRefresh(), context.config.waitUntil);
+            verboseLog(scheduling === 'waitUntil'
+              ? `Background refresh scheduled with waitUntil`
+              : `Background refresh scheduled as fire-and-forget (no waitUntil available)`);
           }
         } else {
           verboseLog(`Cache HIT (age: ${cacheAge}s, expires in: ${expiresIn}s)`);
         }
         
+        instrumentation.emit(isStale ? 'onStale' : 'onHit', { ...eventBase(), age: cacheAge, lookupMs });
+        instrumentation.countRequest(isStale ? 'stale' : 'hit', metricAttributes);
+        
         // Return cached response with appropriate cache status
-        return cacheToResponse(cachedEntry, isStale ? 'STALE' : 'HIT');
+        return respond(cacheToResponse(cachedEntry), {
+          status: isStale ? 'STALE' : 'HIT',
+          entry: cachedEntry,
+          detail: isStale ? 'stale-while-revalidate' : undefined,
+        });
       } else {
-        if (!cachedEntry) {
+        if (cachedEntry) {
+          circuitFallback = cachedEntry;
+        }
+        if (cachedEntry === undefined) {
           verboseLog(`Cache MISS - no entry found`);
+        } else if (cachedEntry === null) {
+          verboseLog(`Cache MISS - entry invalid`);
+          missReason = 'invalid';
         } else if (isCacheEntryExpired(cachedEntry)) {
           verboseLog(`Cache MISS - entry expired`);
+          missReason = 'expired';
+          if (isUsableOnError(cachedEntry)) {
+            staleFallback = cachedEntry;
+          }
         } else {
-          verboseLog(`Cache MISS - entry invalid`);
+          verboseLog(`Cache MISS - entry invalidated by tag`);
+          missReason = 'invalidated';
         }
       }
+    } else if (refreshReason) {
+      verboseLog(`Skipping cache lookup due to forced refresh (${refreshReason})`);
     } else {
       verboseLog(`Skipping cache lookup due to cache option: ${cacheOption}`);
     }
     
-    // Fetch from origin (cache miss or expired)
-    verboseLog(`Fetching from origin: ${method} ${url}`);
-    const response = await fetch(input, cleanOptions);
+    // Fetch from origin (cache miss or expired) and store the result
+    const fetchFromOrigin = async (): Promise<Response> => {
+      verboseLog(`Fetching from origin: ${method} ${url}`);
+      const fetchStart = monotonicNow();
+      const response = await tracedFetch(cleanOptions);
+      const originLatency = Math.round(monotonicNow() - fetchStart);
+      
+      verboseLog(`Origin response: ${response.status} ${response.statusText}`);
+      
+      // Only cache cacheable statuses (2xx by default) and methods (GET/POST/PUT by default)
+      if (isStorableResponse(response)) {
+        verboseLog(`Caching response (status: ${response.status}, method: ${method})`);
+        // Tee the body: the caller streams one branch while the other is written to the cache
+        const responseForCaching = response.clone();
+        
+        const storeResponse = async () => {
+          try {
+            const cacheEntry = await responseToCache(responseForCaching, init, compression, originLatency);
+            if (!cacheEntry) {
+              verboseLog(`Not caching response (body exceeds maxCacheableBytes: ${init?.next?.maxCacheableBytes})`);
+              return;
+            }
+            
+            // Store in cache with appropriate TTL
+            const cacheTTL = computeTTL(cacheEntry.staleIfErrorUntil ?? cacheEntry.expiresAt);
+            verboseLog(`Storing in cache with TTL: ${cacheTTL}s, expires at: ${cacheEntry.expiresAt ? new Date(cacheEntry.expiresAt).toISOString() : 'never'}`);
+            
+            const storageKey = await getStorageKey(response, cacheTTL);
+            await storeEntry(storageKey, cacheEntry, cacheTTL);
+          } catch (error) {
+            console.error('[cached-middleware-fetch] Failed to cache response:', error);
+            instrumentation.emit('onError', { ...eventBase(), stage: 'store', error });
+          }
+        };
+        
+        runInBackground(storeResponse(), context.config.waitUntil);
+      }
+      
+      return response;
+    };
+    
+    // Concurrent misses on the same key (and identity) share one origin request
+    const originStart = monotonicNow();
+    let response: Response;
+    try {
+      response = isMethodCacheable
+        ? await coalesceRequest(context.inFlightRequests, coalesceKey, fetchFromOrigin, isShareableResponse)
+        : await fetchFromOrigin();
+    } catch (error) {
+      originFailed = true;
+      instrumentation.emit('onError', { ...eventBase(), stage: 'origin', error });
+      const errorFallback = staleFallback ?? (error instanceof CircuitOpenError ? circuitFallback : undefined);
+      if (errorFallback) {
+        if (error instanceof CircuitOpenError) {
+          verboseLog(`Circuit breaker open for ${error.origin}, serving stale entry`);
+        } else {
+          console.error('[cached-middleware-fetch] Origin fetch failed, serving stale entry:', error);
+        }
+        instrumentation.countRequest('stale-error', metricAttributes);
+        // An open circuit answers without contacting origin; other errors happened on a forwarded request
+        const circuitOpen = error instanceof CircuitOpenError;
+        return respond(cacheToResponse(errorFallback), {
+          status: 'STALE-ERROR',
+          entry: errorFallback,
+          forward: circuitOpen ? undefined : 'stale',
+          detail: circuitOpen ? 'circuit-open' : 'stale-if-error',
+        });
+      }
+      throw error;
+    }
+    const originMs = monotonicNow() - originStart;
+    instrumentation.recordDuration('origin', originMs, metricAttributes);
     
-    // Clone the response first to avoid body consumption issues
-    const responseForCaching = response.clone();
-    const responseForReturn = response.clone();
+    if (staleFallback && staleIfErrorStatuses.includes(response.status)) {
+      verboseLog(`Origin responded ${response.status}, serving stale entry (stale-if-error)`);
+      instrumentation.countRequest('stale-error', metricAttributes);
+      return respond(cacheToResponse(staleFallback), {
+        status: 'STALE-ERROR',
+        entry: staleFallback,
+        forward: 'stale',
+        forwardStatus: response.status,
+        detail: 'stale-if-error',
+        originMs,
+      });
+    }
     
-    verboseLog(`Origin response: ${response.status} ${response.statusText}`);
+    instrumentation.emit('onMiss', { ...eventBase(), reason: missReason, status: response.status, lookupMs, originMs });
+    instrumentation.countRequest('miss', metricAttributes);
     
     // Add cache status headers to indicate this was a miss
-    const responseWithCacheHeaders = new Response(responseForReturn.body, {
+    const responseWithCacheHeaders = new Response(response.body, {
       status: response.status,
       statusText: response.statusText,
       headers: new Headers(response.headers)
     });
-    responseWithCacheHeaders.headers.set('X-Cache-Status', 'MISS');
-    responseWithCacheHeaders.headers.set('X-Cache-Age', '0');
     
-    // Only cache successful responses (2xx) and GET/POST/PUT requests
-    if (response.ok && (method === 'GET' || method === 'POST' || method === 'PUT')) {
-      verboseLog(`Caching response (status: ${response.status}, method: ${method})`);
-      const cacheEntry = await responseToCache(responseForCaching, init);
-      
-      // Store in cache with appropriate TTL
-      const cacheTTL = computeTTL(cacheEntry.expiresAt);
-      verboseLog(`Storing in cache with TTL: ${cacheTTL}s, expires at: ${cacheEntry.expiresAt ? new Date(cacheEntry.expiresAt).toISOString() : 'never'}`);
-      
-      cache.set(cacheKey, cacheEntry, { ttl: cacheTTL }).catch((error: unknown) => {
-        console.error('[cached-middleware-fetch] Failed to cache response:', error);
-      });
-    } else {
-      verboseLog(`Not caching response (status: ${response.status}, method: ${method}, ok: ${response.ok})`);
+    // Expired or invalidated entries were found but could not be used (RFC 9211 fwd=stale)
+    const forward = !shouldLookup ? 'request' : missReason === 'expired' || missReason === 'invalidated' ? 'stale' : 'miss';
+    return respond(responseWithCacheHeaders, {
+      status: refreshReason ? 'REFRESH' : 'MISS',
+      forward,
+      forwardStatus: response.status,
+      detail: refreshReason ?? (missReason === 'not-found' ? undefined : missReason),
+      originMs,
+    });
+  } catch (error) {
+    instrumentation.countRequest('error', metricAttributes);
+    
+    // Origin failures were already retried; fetching again would only add load to a failing origin
+    if (originFailed) {
+      throw error;
     }
     
-    return responseWithCacheHeaders;
-  } catch (error) {
     // If cache operations fail, fallback to regular fetch
     console.error('[cached-middleware-fetch] Cache operation failed:', error);
     verboseLog(`Falling back to regular fetch due to cache error`);
-    const fallbackResponse = await fetch(input, cleanOptions);
+    instrumentation.emit('onError', { ...eventBase(), stage: 'cache', error });
+    let fallbackResponse: Response;
+    try {
+      fallbackResponse = await fetchOrigin(cleanOptions);
+    } catch (fetchError) {
+      if (staleFallback) {
+        console.error('[cached-middleware-fetch] Fallback fetch failed, serving stale entry:', fetchError);
+        return respond(cacheToResponse(staleFallback), {
+          status: 'STALE-ERROR',
+          entry: staleFallback,
+          forward: 'stale',
+          detail: 'stale-if-error',
+        });
+      }
+      throw fetchError;
+    }
+    
+    if (staleFallback && staleIfErrorStatuses.includes(fallbackResponse.status)) {
+      verboseLog(`Fallback responded ${fallbackResponse.status}, serving stale entry (stale-if-error)`);
+      return respond(cacheToResponse(staleFallback), {
+        status: 'STALE-ERROR',
+        entry: staleFallback,
+        forward: 'stale',
+        forwardStatus: fallbackResponse.status,
+        detail: 'stale-if-error',
+      });
+    }
     
     // Clone the response to avoid body consumption issues
     const fallbackResponseClone = fallbackResponse.clone();
@@ -550,13 +1807,371 @@ export async function cachedFetch(
       statusText: fallbackResponse.statusText,
       headers: new Headers(fallbackResponse.headers)
     });
-    responseWithCacheHeaders.headers.set('X-Cache-Status', 'MISS');
-    responseWithCacheHeaders.headers.set('X-Cache-Age', '0');
     
-    return responseWithCacheHeaders;
+    return respond(responseWithCacheHeaders, {
+      status: 'MISS',
+      forwardStatus: fallbackResponse.status,
+      detail: 'cache-error',
+    });
+  }
+}
+
+/**
+ * Compute the key a request's entry is stored under, without touching origin
+ */
+async function computeKeyWithContext(
+  context: CachedFetchContext,
+  input: RequestInfo | URL,
+  init?: CachedFetchOptions
+): Promise<string> {
+  const keys = await computeRequestKeys(input, prepareFetchOptions(input, init), init);
+  return lookupStorageKey(context.store, keys, init?.next?.respectCacheControl === true);
+}
+
+/**
+ * Read the stored entry for a request without fetching or revalidating
+ * Expired or tag-invalidated entries are included, invalid entries are not
+ */
+async function peekWithContext(
+  context: CachedFetchContext,
+  input: RequestInfo | URL,
+  init?: CachedFetchOptions
+): Promise<CacheEntry | undefined> {
+  const cacheKey = await computeKeyWithContext(context, input, init);
+  return (await readCacheEntry(context.store, cacheKey)) ?? undefined;
+}
+
+/**
+ * Delete the stored entry (and its chunk records) for a request
+ * Resolves to false when no entry was stored
+ */
+async function invalidateWithContext(
+  context: CachedFetchContext,
+  input: RequestInfo | URL,
+  init?: CachedFetchOptions
+): Promise<boolean> {
+  const cache = context.store;
+  const cacheKey = await computeKeyWithContext(context, input, init);
+  context.memoryCache?.delete(cacheKey);
+  const entry = await cache.get(cacheKey) as CacheEntry | null | undefined;
+  if (!entry) return false;
+  
+  await cache.delete(cacheKey);
+  if (entry.chunks) {
+    const { id, count } = entry.chunks;
+    await Promise.all(
+      Array.from({ length: count }, (_, index) => cache.delete(getChunkKey(cacheKey, id, index)))
+    );
+  }
+  
+  verboseLog(`Invalidated cache entry for key: ${cacheKey}`);
+  return true;
+}
+
+/**
+ * Store a response for a request as if it had been fetched from origin
+ * Freshness, tags and size limits come from init.next like a regular cachedFetch call.
+ * Resolves to false when the body exceeds next.maxCacheableBytes.
+ */
+async function primeWithContext(
+  context: CachedFetchContext,
+  input: RequestInfo | URL,
+  response: Response,
+  init?: CachedFetchOptions
+): Promise<boolean> {
+  const cache = context.store;
+  const compression = { format: context.config.compression, threshold: context.config.compressionThreshold };
+  const respectCacheControl = init?.next?.respectCacheControl === true;
+  const keys = await computeRequestKeys(input, prepareFetchOptions(input, init), init);
+  
+  const cacheEntry = await responseToCache(await applyTransform(response, init), init, compression);
+  if (!cacheEntry) {
+    verboseLog(`Not priming cache (body exceeds maxCacheableBytes: ${init?.next?.maxCacheableBytes})`);
+    return false;
+  }
+  
+  const cacheTTL = computeTTL(cacheEntry.staleIfErrorUntil ?? cacheEntry.expiresAt);
+  const storageKey = await getResponseStorageKey(cache, keys, response, cacheTTL, respectCacheControl);
+  await writeCacheEntry(cache, storageKey, cacheEntry, cacheTTL, context.chunkSize);
+  context.memoryCache?.set(storageKey, cacheEntry);
+  verboseLog(`Primed cache entry for key: ${storageKey} (TTL: ${cacheTTL}s)`);
+  return true;
+}
+
+/**
+ * Fetch through the cache and parse the body as JSON
+ * Entries served from the cache are parsed from the stored body (once per entry object)
+ * instead of streaming it through a Response first.
+ */
+async function fetchJsonWithContext<T>(
+  context: CachedFetchContext,
+  input: RequestInfo | URL,
+  init?: CachedFetchOptions
+): Promise<CachedJsonResult<T>> {
+  const response = await cachedFetchWithContext(context, input, init);
+  const entry = entryByResponse.get(response);
+  
+  let data: T;
+  if (entry && !entry.isBinary && !entry.compression) {
+    if (!parsedJsonByEntry.has(entry)) {
+      parsedJsonByEntry.set(entry, JSON.parse(entry.data as string));
+    }
+    data = structuredClone(parsedJsonByEntry.get(entry)) as T;
+    await response.body?.cancel();
+  } else {
+    data = await response.json() as T;
   }
+  
+  const summary = summaryByResponse.get(response);
+  return {
+    data,
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+    cacheStatus: summary?.status ?? 'MISS',
+    cacheAge: summary?.age ?? 0,
+    expiresIn: summary?.expiresIn,
+  };
 }
 
+/**
+ * Wrap an async function so its results are stored like fetch responses
+ * Results are serialized as JSON into a regular cache entry, so staleness, expiry,
+ * tag invalidation, compression and background refresh work as for cachedFetch.
+ */
+function cachedFunctionWithContext<Args extends unknown[], R>(
+  context: CachedFetchContext,
+  fn: (...args: Args) => Promise<R>,
+  keyParts: string[] = [],
+  options: CachedFunctionOptions = {}
+): (...args: Args) => Promise<R> {
+  const cache = context.store;
+  const compression = { format: context.config.compression, threshold: context.config.compressionThreshold };
+  const init: CachedFetchOptions = {
+    next: { revalidate: options.revalidate, expires: options.expires, tags: options.tags },
+  };
+  // Like unstable_cache, the function source is part of the key so changed code doesn't reuse old results
+  const fnSource = fn.toString();
+  
+  /**
+   * Run the function and write its result to the store in the background
+   */
+  const compute = async (cacheKey: string, args: Args): Promise<R> => {
+    const start = monotonicNow();
+    const value = await fn(...args);
+    const originLatency = Math.round(monotonicNow() - start);
+    
+    const storeResult = async () => {
+      try {
+        // Wrapped in an object so undefined results round-trip
+        const entry = await responseToCache(
+          new Response(JSON.stringify({ value }), { headers: { 'content-type': 'application/json' } }),
+          init,
+          compression,
+          originLatency
+        );
+        if (!entry) return;
+        const cacheTTL = computeTTL(entry.expiresAt);
+        await writeCacheEntry(cache, cacheKey, entry, cacheTTL, context.chunkSize);
+        context.memoryCache?.set(cacheKey, entry);
+        verboseLog(`Stored function result (TTL: ${cacheTTL}s)`);
+      } catch (error) {
+        console.error('[cached-middleware-fetch] Failed to cache function result:', error);
+      }
+    };
+    runInBackground(storeResult(), context.config.waitUntil);
+    return value;
+  };
+  
+  /**
+   * Concurrent calls with the same key share one computation
+   */
+  const coalesce = (cacheKey: string, args: Args): Promise<R> => {
+    let pending = context.inFlightComputations.get(cacheKey) as Promise<R> | undefined;
+    if (!pending) {
+      const computation = compute(cacheKey, args);
+      pending = computation;
+      const clear = () => {
+        if (context.inFlightComputations.get(cacheKey) === computation) {
+          context.inFlightComputations.delete(cacheKey);
+        }
+      };
+      computation.then(clear, clear);
+      context.inFlightComputations.set(cacheKey, computation);
+    }
+    return pending;
+  };
+  
+  return async (...args: Args): Promise<R> => {
+    if (options.revalidate === 0) {
+      return fn(...args);
+    }
+    
+    const cacheKey = await sha256(JSON.stringify([CACHE_KEY_VERSION, 'function', keyParts, fnSource, args]));
+    verboseLog(`Calling cached function with key: ${cacheKey}`);
+    
+    let entry: CacheEntry | null | undefined;
+    try {
+      entry = await readContextEntry(context, cacheKey);
+      if (entry && (isCacheEntryExpired(entry) || await isInvalidatedByTags(cache, entry, context.memoryCache))) {
+        entry = undefined;
+      }
+    } catch (error) {
+      // Cache failures fall back to calling the function
+      console.error('[cached-middleware-fetch] Cache operation failed:', error);
+      return fn(...args);
+    }
+    
+    if (!entry) {
+      verboseLog(`Cache MISS - computing function result`);
+      return coalesce(cacheKey, args);
+    }
+    
+    if (needsRevalidation(entry) && !context.inFlightRefreshes.has(cacheKey)) {
+      verboseLog(`Cache STALE - recomputing function result in background`);
+      context.inFlightRefreshes.add(cacheKey);
+      const backgroundRefresh = async () => {
+        let lockOwner: string | null = null;
+        try {
+          // Only one instance recomputes a stale result at a time
+          lockOwner = await acquireRefreshLock(cache, cacheKey);
+          if (lockOwner) {
+            await compute(cacheKey, args);
+          }
+        } catch (error) {
+          console.error('[cached-middleware-fetch] Background refresh failed:', error);
+        } finally {
+          context.inFlightRefreshes.delete(cacheKey);
+          if (lockOwner) {
+            await releaseRefreshLock(cache, cacheKey, lockOwner).catch(() => {});
+          }
+        }
+      };
+      runInBackground(backgroundRefresh(), context.config.waitUntil);
+    } else {
+      verboseLog(`Cache HIT - serving stored function result`);
+    }
+    
+    // Parsed on every call so callers can't mutate each other's results
+    const { value } = await cacheToResponse(entry).json() as { value: R };
+    return value;
+  };
+}
+
+/**
+ * Create a cachedFetch function backed by a custom cache store
+ * Use this to run the same caching logic outside Vercel (local dev, self-hosted Node, tests)
+ */
+export function createCachedFetch(config: CachedFetchConfig = {}): CachedFetch {
+  const baseStore = config.store ?? createVercelRuntimeCacheStore();
+  const store = config.encryption ? createEncryptedStore(baseStore, config.encryption) : baseStore;
+  const memoryCache = config.memoryCache
+    ? createMemoryCache(config.memoryCache === true ? {} : config.memoryCache)
+    : undefined;
+  const context: CachedFetchContext = {
+    config,
+    store,
+    memoryCache,
+    circuitBreaker: config.circuitBreaker
+      ? createCircuitBreaker(config.circuitBreaker === true ? {} : config.circuitBreaker)
+      : undefined,
+    instrumentation: createInstrumentation(config.hooks, config.telemetry),
+    inFlightRequests: new Map(),
+    inFlightRefreshes: new Set(),
+    inFlightComputations: new Map(),
+    chunkSize: config.encryption && config.chunkSize
+      ? getEncryptedChunkSize(config.chunkSize, config.encryption)
+      : config.chunkSize,
+  };
+  
+  const policies: CachePolicyTable | undefined = Array.isArray(config.policies)
+    ? defineCachePolicies(config.policies)
+    : config.policies;
+  
+  // Fill in next options from the first matching policy (per-call options win)
+  const withPolicy = (input: RequestInfo | URL, init?: CachedFetchOptions): CachedFetchOptions | undefined => {
+    const policy = policies?.match(input, init);
+    if (!policy) return init;
+    verboseLog(`Matched cache policy: ${policy.name ?? `#${policies!.policies.indexOf(policy)}`}`);
+    return applyCachePolicy(policy, init);
+  };
+  
+  const fetchWithCache = (input: RequestInfo | URL, init?: CachedFetchOptions) =>
+    cachedFetchWithContext(context, input, withPolicy(input, init));
+  
+  return Object.assign(fetchWithCache, {
+    revalidateTag: (tag: string) => revalidateTagsInStore(store, [tag], memoryCache),
+    revalidateTags: (tags: string[]) => revalidateTagsInStore(store, tags, memoryCache),
+    computeKey: (input: RequestInfo | URL, init?: CachedFetchOptions) =>
+      computeKeyWithContext(context, input, withPolicy(input, init)),
+    peek: (input: RequestInfo | URL, init?: CachedFetchOptions) =>
+      peekWithContext(context, input, withPolicy(input, init)),
+    invalidate: (input: RequestInfo | URL, init?: CachedFetchOptions) =>
+      invalidateWithContext(context, input, withPolicy(input, init)),
+    prime: (input: RequestInfo | URL, response: Response, init?: CachedFetchOptions) =>
+      primeWithContext(context, input, response, withPolicy(input, init)),
+    json: <T = unknown>(input: RequestInfo | URL, init?: CachedFetchOptions) =>
+      fetchJsonWithContext<T>(context, input, withPolicy(input, init)),
+    cachedFunction: <Args extends unknown[], R>(
+      fn: (...args: Args) => Promise<R>,
+      keyParts?: string[],
+      options?: CachedFunctionOptions
+    ) => cachedFunctionWithContext(context, fn, keyParts, options),
+    memoryCacheStats: (): MemoryCacheStats =>
+      memoryCache?.stats() ?? { hits: 0, misses: 0, evictions: 0, entries: 0, bytes: 0 },
+    clearMemoryCache: () => memoryCache?.clear(),
+    matchPolicy: (input: RequestInfo | URL, init?: CachedFetchOptions) => policies?.match(input, init),
+  });
+}
+
+/**
+ * A fetch wrapper that uses Vercel Runtime Cache for caching
+ * Mimics Next.js Data Cache API for use in edge middleware
+ */
+export const cachedFetch: CachedFetch = createCachedFetch();
+
+/**
+ * Invalidate every cache entry written by cachedFetch with the given tag
+ */
+export const revalidateTag = cachedFetch.revalidateTag;
+
+/**
+ * Invalidate every cache entry written by cachedFetch with any of the given tags
+ * Matching entries are treated as a cache MISS on their next lookup
+ */
+export const revalidateTags = cachedFetch.revalidateTags;
+
+/**
+ * Fetch through the cache and return parsed JSON with cache metadata
+ */
+export const cachedFetchJson = cachedFetch.json;
+
+/**
+ * Cache the results of an async function with the default cache store
+ * Mirrors unstable_cache from Next.js.
+ */
+export const cachedFunction = cachedFetch.cachedFunction;
+
+/**
+ * Compute the cache key cachedFetch stores a request under
+ */
+export const computeCacheKey = cachedFetch.computeKey;
+
+/**
+ * Read the stored cache entry for a request without fetching
+ */
+export const peekCacheEntry = cachedFetch.peek;
+
+/**
+ * Delete the stored cache entry for a request
+ */
+export const invalidateCacheEntry = cachedFetch.invalidate;
+
+/**
+ * Store a response in the cache for a request (e.g. from a warmup script)
+ */
+export const primeCache = cachedFetch.prime;
+
 // Export as default for easier drop-in replacement
 export default cachedFetch;
 
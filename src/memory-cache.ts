@@ -0,0 +1,138 @@
+import type { CacheEntry, MemoryCacheOptions, MemoryCacheStats } from './types';
+
+/**
+ * In-process L1 tier kept in front of the cache store
+ * Only fresh entries are served; stale or expired entries fall through to the store
+ * so revalidation (and refreshes done by other instances) are picked up.
+ */
+export interface MemoryCache {
+  get(key: string): CacheEntry | undefined;
+  set(key: string, entry: CacheEntry): void;
+  delete(key: string): void;
+  
+  /**
+   * When a tag was last revalidated (null if never), or undefined when not held in memory
+   */
+  getTagRevalidatedAt(tag: string): number | null | undefined;
+  setTagRevalidatedAt(tag: string, revalidatedAt: number | null): void;
+  
+  clear(): void;
+  stats(): MemoryCacheStats;
+}
+
+/**
+ * Approximate memory footprint of an entry (in UTF-16 code units)
+ */
+function estimateEntrySize(entry: CacheEntry): number {
+  const dataSize = typeof entry.data === 'string' ? entry.data.length : 0;
+  return dataSize + JSON.stringify(entry.headers).length + 256;
+}
+
+/**
+ * Check if an entry can be served without revalidation at the given time
+ */
+function isFresh(entry: CacheEntry, now: number): boolean {
+  if (entry.expiresAt !== undefined && now > entry.expiresAt) return false;
+  if (entry.revalidateAfter !== undefined && now > entry.revalidateAfter) return false;
+  return true;
+}
+
+/**
+ * Create a bounded LRU memory cache for entries, limited by entry count and size
+ */
+export function createMemoryCache(options: MemoryCacheOptions = {}): MemoryCache {
+  const maxEntries = Math.max(1, options.maxEntries ?? 500);
+  const maxBytes = Math.max(1, options.maxBytes ?? 50 * 1024 * 1024);
+  const maxTtl = options.maxTtl;
+  const tagTtl = Math.max(0, options.tagTtl ?? 1);
+  
+  // Map iteration order doubles as recency order (oldest first)
+  const entries = new Map<string, { entry: CacheEntry; size: number; evictAt?: number }>();
+  // Tag revalidation records read from the store, kept for tagTtl (oldest first)
+  const tags = new Map<string, { revalidatedAt: number | null; evictAt: number }>();
+  let bytes = 0;
+  let hits = 0;
+  let misses = 0;
+  let evictions = 0;
+  
+  const remove = (key: string) => {
+    const item = entries.get(key);
+    if (!item) return;
+    entries.delete(key);
+    bytes -= item.size;
+  };
+  
+  return {
+    get(key) {
+      const item = entries.get(key);
+      const now = Date.now();
+      if (!item || !isFresh(item.entry, now) || (item.evictAt !== undefined && now > item.evictAt)) {
+        if (item) remove(key);
+        misses++;
+        return undefined;
+      }
+      
+      // Mark as most recently used
+      entries.delete(key);
+      entries.set(key, item);
+      hits++;
+      return item.entry;
+    },
+    
+    set(key, entry) {
+      remove(key);
+      
+      const now = Date.now();
+      const size = estimateEntrySize(entry);
+      if (!isFresh(entry, now) || size > maxBytes) return;
+      
+      entries.set(key, {
+        entry,
+        size,
+        evictAt: typeof maxTtl === 'number' ? now + (maxTtl * 1000) : undefined,
+      });
+      bytes += size;
+      
+      // Evict least recently used entries
+      while (entries.size > maxEntries || bytes > maxBytes) {
+        const oldestKey = entries.keys().next().value as string;
+        remove(oldestKey);
+        evictions++;
+      }
+    },
+    
+    delete(key) {
+      remove(key);
+    },
+    
+    getTagRevalidatedAt(tag) {
+      const item = tags.get(tag);
+      if (!item) return undefined;
+      if (Date.now() > item.evictAt) {
+        tags.delete(tag);
+        return undefined;
+      }
+      return item.revalidatedAt;
+    },
+    
+    setTagRevalidatedAt(tag, revalidatedAt) {
+      tags.delete(tag);
+      if (tagTtl === 0) return;
+      
+      tags.set(tag, { revalidatedAt, evictAt: Date.now() + (tagTtl * 1000) });
+      if (tags.size > maxEntries) {
+        tags.delete(tags.keys().next().value as string);
+      }
+    },
+    
+    clear() {
+      entries.clear();
+      tags.clear();
+      bytes = 0;
+    },
+    
+    stats() {
+      return { hits, misses, evictions, entries: entries.size, bytes };
+    },
+  };
+}
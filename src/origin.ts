@@ -0,0 +1,202 @@
+import type { CircuitBreakerOptions } from './types';
+
+/**
+ * Thrown when origin does not respond with headers within next.timeoutMs
+ */
+export class OriginTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Origin did not respond within ${timeoutMs}ms`);
+    this.name = 'OriginTimeoutError';
+  }
+}
+
+/**
+ * Thrown instead of contacting an origin whose circuit breaker is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(public readonly origin: string) {
+    super(`Circuit breaker open for ${origin}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Timeout and retry settings for a single origin request
+ */
+export interface OriginFetchPolicy {
+  timeoutMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
+  retryStatuses?: number[];
+}
+
+/**
+ * Per-origin circuit breaker state for one cachedFetch instance
+ */
+export interface CircuitBreaker {
+  /**
+   * Throw CircuitOpenError when requests to the origin should fail fast
+   */
+  beforeRequest(origin: string): void;
+  recordSuccess(origin: string): void;
+  recordFailure(origin: string): void;
+}
+
+const DEFAULT_RETRY_DELAY_MS = 100;
+const MAX_RETRY_DELAY_MS = 5000;
+const DEFAULT_RETRY_STATUSES = [502, 503, 504];
+
+/**
+ * Methods that are safe to send more than once
+ */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Create a circuit breaker that opens after consecutive failures per origin
+ * After resetTimeoutMs a single trial request is let through (half-open):
+ * success closes the circuit, failure opens it again.
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions = {}): CircuitBreaker {
+  const failureThreshold = Math.max(1, options.failureThreshold ?? 5);
+  const resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+  const circuits = new Map<string, { failures: number; openedAt?: number; probing: boolean }>();
+  
+  const getCircuit = (origin: string) => {
+    let circuit = circuits.get(origin);
+    if (!circuit) {
+      circuit = { failures: 0, probing: false };
+      circuits.set(origin, circuit);
+    }
+    return circuit;
+  };
+  
+  return {
+    beforeRequest(origin) {
+      const circuit = circuits.get(origin);
+      if (!circuit || circuit.openedAt === undefined) return;
+      
+      if (circuit.probing || Date.now() - circuit.openedAt < resetTimeoutMs) {
+        throw new CircuitOpenError(origin);
+      }
+      circuit.probing = true;
+    },
+    
+    recordSuccess(origin) {
+      circuits.delete(origin);
+    },
+    
+    recordFailure(origin) {
+      const circuit = getCircuit(origin);
+      circuit.failures++;
+      if (circuit.probing || circuit.failures >= failureThreshold) {
+        circuit.openedAt = Date.now();
+        circuit.probing = false;
+      }
+    },
+  };
+}
+
+/**
+ * Wait before the given retry attempt (exponential backoff with full jitter)
+ */
+function backoff(attempt: number, baseDelayMs: number): Promise<void> {
+  const delay = Math.random() * Math.min(MAX_RETRY_DELAY_MS, baseDelayMs * 2 ** attempt);
+  return new Promise(resolve => setTimeout(resolve, delay));
+}
+
+/**
+ * Send a single request, aborting it when response headers take longer than timeoutMs
+ * The caller's own abort signal keeps working alongside the timeout.
+ */
+async function fetchWithTimeout(input: RequestInfo | URL, init: RequestInit, timeoutMs?: number): Promise<Response> {
+  if (!timeoutMs || timeoutMs <= 0) {
+    return fetch(input, init);
+  }
+  
+  const controller = new AbortController();
+  const callerSignal = init.signal ?? (input instanceof Request ? input.signal : undefined);
+  const onCallerAbort = () => controller.abort(callerSignal?.reason);
+  if (callerSignal?.aborted) {
+    onCallerAbort();
+  } else {
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+  }
+  
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort(new OriginTimeoutError(timeoutMs));
+  }, timeoutMs);
+  
+  try {
+    return await fetch(input, { ...init, signal: controller.signal });
+  } catch (error) {
+    throw timedOut ? new OriginTimeoutError(timeoutMs) : error;
+  } finally {
+    // Only the wait for headers is limited; the body keeps streaming
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
+  }
+}
+
+/**
+ * Fetch from origin with a timeout, retries for idempotent methods and an optional circuit breaker
+ * Network errors, timeouts and retryStatuses are retried; the last response or error is returned.
+ */
+export async function fetchWithPolicy(
+  input: RequestInfo | URL,
+  init: RequestInit,
+  policy: OriginFetchPolicy,
+  breaker?: CircuitBreaker
+): Promise<Response> {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+  let origin: string | undefined;
+  try {
+    origin = new URL(url).origin;
+  } catch {
+    // Relative or invalid URLs are not tracked by the circuit breaker
+  }
+  
+  const method = (init.method ?? 'GET').toUpperCase();
+  const retries = IDEMPOTENT_METHODS.includes(method) ? Math.max(0, policy.retries ?? 0) : 0;
+  const retryStatuses = policy.retryStatuses ?? DEFAULT_RETRY_STATUSES;
+  const callerSignal = init.signal ?? (input instanceof Request ? input.signal : undefined);
+  
+  for (let attempt = 0; ; attempt++) {
+    if (breaker && origin) {
+      breaker.beforeRequest(origin);
+    }
+    
+    // Request bodies can only be read once, so retried Request inputs are cloned
+    const attemptInput = retries > 0 && input instanceof Request ? input.clone() : input;
+    const canRetry = attempt < retries && !callerSignal?.aborted;
+    
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(attemptInput, init, policy.timeoutMs);
+    } catch (error) {
+      if (breaker && origin) {
+        breaker.recordFailure(origin);
+      }
+      if (!canRetry || callerSignal?.aborted) throw error;
+      await backoff(attempt, policy.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS);
+      continue;
+    }
+    
+    if (breaker && origin) {
+      if (response.status >= 500) {
+        breaker.recordFailure(origin);
+      } else {
+        breaker.recordSuccess(origin);
+      }
+    }
+    
+    if (canRetry && retryStatuses.includes(response.status)) {
+      await response.body?.cancel().catch(() => {});
+      await backoff(attempt, policy.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS);
+      continue;
+    }
+    
+    return response;
+  }
+}
@@ -0,0 +1,110 @@
+import type { CachedFetchOptions, CachePolicy, CachePolicyMatch, CachePolicyTable } from './types';
+
+/**
+ * Compile a glob where '**' matches anything and '*' matches anything but the separator
+ */
+function globToRegExp(glob: string, separator: string): RegExp {
+  const escapedSeparator = `\\${separator}`;
+  const source = glob
+    .split('**')
+    .map(part =>
+      part
+        .split('*')
+        .map(literal => literal.replace(/[.+?^${}()|[\]\\/]/g, '\\$&'))
+        .join(`[^${escapedSeparator}]*`)
+    )
+    .join('.*');
+  return new RegExp(`^${source}$`, separator === '.' ? 'i' : '');
+}
+
+function toList(value: string | string[] | undefined): string[] | undefined {
+  return value === undefined ? undefined : Array.isArray(value) ? value : [value];
+}
+
+type RequestMatcher = (url: URL | undefined, href: string, method: string) => boolean;
+
+/**
+ * Build a matcher for a policy's conditions, compiling globs once
+ */
+function compileMatch(match: CachePolicyMatch): RequestMatcher {
+  const hosts = toList(match.host)?.map(glob => globToRegExp(glob, '.'));
+  const paths = toList(match.path)?.map(glob => globToRegExp(glob, '/'));
+  const methods = toList(match.method)?.map(method => method.toUpperCase());
+  const { pattern } = match;
+  
+  return (url, href, method) => {
+    if (methods && !methods.includes(method)) return false;
+    // Relative or invalid URLs only match policies without URL conditions
+    if ((hosts || paths || pattern) && !url) return false;
+    if (hosts && !hosts.some(regex => regex.test(url!.hostname))) return false;
+    if (paths && !paths.some(regex => regex.test(url!.pathname))) return false;
+    if (pattern && !pattern.test(href)) return false;
+    return true;
+  };
+}
+
+function getRequestUrl(input: RequestInfo | URL): string {
+  return typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+}
+
+function getRequestMethod(input: RequestInfo | URL, init?: CachedFetchOptions): string {
+  const method = init?.method ?? (typeof input === 'object' && 'method' in input ? input.method : 'GET');
+  return method.toUpperCase();
+}
+
+/**
+ * Drop undefined values so they don't shadow policy defaults when spread
+ */
+function definedOnly<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+/**
+ * Layer per-call next options over a policy's defaults
+ * The policy name is the default route label for metrics and hook events.
+ */
+export function applyCachePolicy(policy: CachePolicy, init?: CachedFetchOptions): CachedFetchOptions {
+  return { ...init, next: { route: policy.name, ...policy.next, ...definedOnly(init?.next ?? {}) } };
+}
+
+/**
+ * Define an ordered table of cache policies
+ * Requests use the next options of the first policy whose conditions all match,
+ * with per-call next options taking precedence.
+ *
+ * @example
+ * const policies = defineCachePolicies([
+ *   { name: 'routes', match: { host: 'api.example.com', path: '/routes/**' }, next: { revalidate: 30, tags: ['routes'] } },
+ *   { name: 'default', match: {}, next: { revalidate: 300 } },
+ * ]);
+ * const cachedFetch = createCachedFetch({ policies });
+ */
+export function defineCachePolicies(policies: CachePolicy[]): CachePolicyTable {
+  const compiled = policies.map(policy => {
+    if (!policy || typeof policy.match !== 'object' || typeof policy.next !== 'object') {
+      throw new TypeError('[cached-middleware-fetch] Cache policies need a match and a next object');
+    }
+    return { policy, matches: compileMatch(policy.match) };
+  });
+  
+  const match = (input: RequestInfo | URL, init?: CachedFetchOptions): CachePolicy | undefined => {
+    const href = getRequestUrl(input);
+    let url: URL | undefined;
+    try {
+      url = new URL(href);
+    } catch {
+      url = undefined;
+    }
+    const method = getRequestMethod(input, init);
+    return compiled.find(({ matches }) => matches(url, href, method))?.policy;
+  };
+  
+  return {
+    policies: compiled.map(({ policy }) => policy),
+    match,
+    apply(input, init) {
+      const policy = match(input, init);
+      return policy ? applyCachePolicy(policy, init) : init;
+    },
+  };
+}
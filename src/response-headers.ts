@@ -0,0 +1,109 @@
+import type { CacheEntry, CacheResponseHeaderOptions } from './types';
+
+/**
+ * Cache status reported on responses
+ */
+export type CacheResponseStatus = 'HIT' | 'STALE' | 'STALE-ERROR' | 'MISS' | 'BYPASS' | 'REFRESH';
+
+/**
+ * How a response was produced, as reported in cache response headers
+ */
+export interface CacheResponseInfo {
+  status: CacheResponseStatus;
+  key?: string;
+  entry?: CacheEntry; // Entry the response was served from
+  forward?: 'miss' | 'stale' | 'request' | 'bypass'; // Why origin was contacted (RFC 9211 fwd parameter), also for stale entries served on error
+  forwardStatus?: number; // Status of the origin response
+  detail?: string;
+  lookupMs?: number;
+  originMs?: number;
+}
+
+/**
+ * Cache status and timing of a response, independent of the configured header names
+ */
+export interface CacheResponseSummary {
+  status: CacheResponseStatus;
+  age: number; // Seconds since the entry was stored (0 for origin responses)
+  expiresIn?: number; // Seconds until the entry expires
+}
+
+const DEFAULT_CACHE_NAME = 'cached-middleware-fetch';
+
+/**
+ * Serialize a string as a structured field string (RFC 8941)
+ */
+function toSfString(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+function formatDuration(ms: number): string {
+  return String(Math.round(ms * 10) / 10);
+}
+
+/**
+ * Build the RFC 9211 Cache-Status entry for a response
+ */
+function formatCacheStatus(info: CacheResponseInfo, ttl: number | undefined, options: CacheResponseHeaderOptions): string {
+  const params = [options.cacheName ?? DEFAULT_CACHE_NAME];
+  
+  // hit only when the request wasn't forwarded; entries served after a failed origin request report fwd
+  if (info.entry && !info.forward) {
+    params.push('hit');
+  } else {
+    params.push(`fwd=${info.forward ?? 'miss'}`);
+    if (info.forwardStatus !== undefined) params.push(`fwd-status=${info.forwardStatus}`);
+  }
+  if (ttl !== undefined) params.push(`ttl=${ttl}`);
+  if (options.cacheStatusKey && info.key) params.push(`key=${toSfString(info.key)}`);
+  if (info.detail) params.push(`detail=${toSfString(info.detail)}`);
+  
+  return params.join('; ');
+}
+
+/**
+ * Add the configured cache headers to a response's headers
+ * Returns the reported values so callers don't have to read them back from renamed or omitted headers.
+ */
+export function setCacheResponseHeaders(
+  headers: Headers,
+  info: CacheResponseInfo,
+  options: CacheResponseHeaderOptions = {},
+  now: number = Date.now()
+): CacheResponseSummary {
+  const { entry } = info;
+  const age = entry ? Math.floor((now - entry.timestamp) / 1000) : 0;
+  const expiresIn = entry?.expiresAt ? Math.max(0, Math.floor((entry.expiresAt - now) / 1000)) : undefined;
+  // Remaining freshness, negative once the entry is stale
+  const freshUntil = entry?.revalidateAfter ?? entry?.expiresAt;
+  const ttl = freshUntil !== undefined ? Math.floor((freshUntil - now) / 1000) : undefined;
+  
+  const statusHeader = options.status ?? 'X-Cache-Status';
+  const ageHeader = options.age ?? 'X-Cache-Age';
+  const expiresInHeader = options.expiresIn ?? 'X-Cache-Expires-In';
+  if (statusHeader) headers.set(statusHeader, info.status);
+  if (ageHeader) headers.set(ageHeader, age.toString());
+  if (expiresInHeader && expiresIn !== undefined) headers.set(expiresInHeader, expiresIn.toString());
+  
+  if (options.cacheStatus) {
+    const name = options.cacheStatus === true ? 'Cache-Status' : options.cacheStatus;
+    headers.set(name, formatCacheStatus(info, ttl, options));
+  }
+  
+  // Age covers time spent in upstream caches (the stored Age header) plus time stored here
+  if (options.httpAge && entry) {
+    const upstreamAge = parseInt(headers.get('age') ?? '', 10);
+    headers.set('Age', String((Number.isFinite(upstreamAge) ? upstreamAge : 0) + age));
+  }
+  
+  if (options.serverTiming) {
+    const name = options.serverTiming === true ? 'Server-Timing' : options.serverTiming;
+    const lookup = info.lookupMs !== undefined ? `;dur=${formatDuration(info.lookupMs)}` : '';
+    headers.append(name, `cache;desc=${toSfString(info.status)}${lookup}`);
+    if (info.originMs !== undefined) {
+      headers.append(name, `origin;dur=${formatDuration(info.originMs)}`);
+    }
+  }
+  
+  return { status: info.status, age, expiresIn };
+}
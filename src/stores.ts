@@ -0,0 +1,62 @@
+// @ts-ignore - getCache is available at runtime on Vercel
+import { getCache } from '@vercel/functions';
+import type { CacheStore, MemoryStoreOptions } from './types';
+
+/**
+ * Cache store backed by Vercel Runtime Cache
+ * getCache() is resolved on every operation so the store can be created at module scope
+ */
+export function createVercelRuntimeCacheStore(): CacheStore {
+  return {
+    get: (key) => getCache().get(key),
+    set: (key, value, options) => getCache().set(key, value, options),
+    delete: (key) => getCache().delete(key),
+  };
+}
+
+/**
+ * In-memory LRU cache store
+ * Useful for local development, self-hosted Node and unit tests.
+ * Values are kept per process and are not shared between instances.
+ */
+export function createMemoryStore(options: MemoryStoreOptions = {}): CacheStore {
+  const maxEntries = Math.max(1, options.maxEntries ?? 1000);
+  // Map iteration order doubles as recency order (oldest first)
+  const entries = new Map<string, { value: unknown; expiresAt?: number }>();
+  
+  return {
+    async get(key) {
+      const item = entries.get(key);
+      if (!item) return undefined;
+      
+      if (item.expiresAt !== undefined && Date.now() > item.expiresAt) {
+        entries.delete(key);
+        return undefined;
+      }
+      
+      // Mark as most recently used
+      entries.delete(key);
+      entries.set(key, item);
+      return item.value;
+    },
+    
+    async set(key, value, setOptions) {
+      const ttl = setOptions?.ttl;
+      entries.delete(key);
+      entries.set(key, {
+        value,
+        expiresAt: typeof ttl === 'number' ? Date.now() + (ttl * 1000) : undefined,
+      });
+      
+      // Evict least recently used values
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value as string;
+        entries.delete(oldestKey);
+      }
+    },
+    
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import type {
+  CachedFetchHooks,
+  CachedFetchTelemetry,
+  TelemetryAttributes
+} from './types';
+
+/**
+ * Cache outcomes counted by the cached_fetch.requests metric
+ */
+export type CacheOutcome = 'hit' | 'stale' | 'miss' | 'stale-error' | 'bypass' | 'error';
+
+/**
+ * Hooks, spans and metrics for one cachedFetch instance
+ */
+export interface Instrumentation {
+  /**
+   * Call a hook without letting it affect the response
+   */
+  emit<K extends keyof CachedFetchHooks>(
+    name: K,
+    event: Parameters<NonNullable<CachedFetchHooks[K]>>[0]
+  ): void;
+  
+  /**
+   * Run an operation inside a span (when a tracer is configured)
+   */
+  trace<T>(name: string, attributes: TelemetryAttributes, operation: () => Promise<T>): Promise<T>;
+  
+  /**
+   * Count a cachedFetch call by outcome
+   */
+  countRequest(outcome: CacheOutcome, attributes: TelemetryAttributes): void;
+  
+  /**
+   * Record the duration (in milliseconds) of a lookup, origin fetch or store
+   */
+  recordDuration(operation: 'lookup' | 'origin' | 'store', durationMs: number, attributes: TelemetryAttributes): void;
+}
+
+/**
+ * Milliseconds from a monotonic clock where available
+ */
+export function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+export function createInstrumentation(
+  hooks: CachedFetchHooks = {},
+  telemetry: CachedFetchTelemetry = {}
+): Instrumentation {
+  const { tracer, meter } = telemetry;
+  const requestCounter = meter?.createCounter('cached_fetch.requests', {
+    description: 'cachedFetch calls by cache outcome',
+  });
+  const durationHistogram = meter?.createHistogram('cached_fetch.duration', {
+    description: 'Duration of cache lookups, origin fetches and cache writes',
+    unit: 'ms',
+  });
+  
+  const reportHookError = (name: string, error: unknown) => {
+    console.error(`[cached-middleware-fetch] ${name} hook failed:`, error);
+  };
+  
+  return {
+    emit(name, event) {
+      const hook = hooks[name] as ((event: unknown) => void | Promise<void>) | undefined;
+      if (!hook) return;
+      
+      try {
+        const result = hook(event);
+        if (result && typeof result.then === 'function') {
+          result.then(undefined, (error) => reportHookError(name, error));
+        }
+      } catch (error) {
+        reportHookError(name, error);
+      }
+    },
+    
+    async trace(name, attributes, operation) {
+      if (!tracer) return operation();
+      
+      const span = tracer.startSpan(name, { attributes });
+      try {
+        const result = await operation();
+        span.end();
+        return result;
+      } catch (error) {
+        span.recordException?.(error);
+        // SpanStatusCode.ERROR
+        span.setStatus?.({ code: 2, message: error instanceof Error ? error.message : String(error) });
+        span.end();
+        throw error;
+      }
+    },
+    
+    countRequest(outcome, attributes) {
+      requestCounter?.add(1, { ...attributes, 'cache.outcome': outcome });
+    },
+    
+    recordDuration(operation, durationMs, attributes) {
+      durationHistogram?.record(durationMs, { ...attributes, 'cache.operation': operation });
+    },
+  };
+}
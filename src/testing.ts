@@ -0,0 +1,324 @@
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createCachedFetch } from './index';
+import type { CachedFetch, CachedFetchConfig, CacheStore } from './types';
+
+/**
+ * In-memory stand-in for Vercel Runtime Cache
+ * TTLs follow Date.now(), so they can be driven by installFakeClock().
+ */
+export interface FakeRuntimeCache extends CacheStore {
+  /**
+   * Number of live (unexpired) values
+   */
+  readonly size: number;
+  
+  /**
+   * Keys of live (unexpired) values
+   */
+  keys(): string[];
+  
+  /**
+   * Number of get / set / delete calls made so far
+   */
+  readonly calls: { get: number; set: number; delete: number };
+  
+  /**
+   * Make every following operation reject with the given error (simulates a cache outage)
+   */
+  fail(error?: Error): void;
+  
+  /**
+   * Stop failing operations
+   */
+  recover(): void;
+  
+  /**
+   * Remove every value
+   */
+  clear(): void;
+}
+
+/**
+ * Create a fake Runtime Cache store
+ */
+export function createFakeRuntimeCache(): FakeRuntimeCache {
+  const values = new Map<string, { value: unknown; expiresAt?: number }>();
+  const calls = { get: 0, set: 0, delete: 0 };
+  let failure: Error | null = null;
+  
+  const isLive = (key: string) => {
+    const item = values.get(key);
+    if (!item) return false;
+    if (item.expiresAt !== undefined && Date.now() > item.expiresAt) {
+      values.delete(key);
+      return false;
+    }
+    return true;
+  };
+  
+  return {
+    async get(key) {
+      calls.get++;
+      if (failure) throw failure;
+      return isLive(key) ? structuredClone(values.get(key)!.value) : undefined;
+    },
+    
+    async set(key, value, options) {
+      calls.set++;
+      if (failure) throw failure;
+      const ttl = options?.ttl;
+      // Values are copied like a networked cache would serialize them
+      values.set(key, {
+        value: structuredClone(value),
+        expiresAt: typeof ttl === 'number' ? Date.now() + (ttl * 1000) : undefined,
+      });
+    },
+    
+    async delete(key) {
+      calls.delete++;
+      if (failure) throw failure;
+      values.delete(key);
+    },
+    
+    get size() {
+      return this.keys().length;
+    },
+    
+    keys() {
+      return Array.from(values.keys()).filter(isLive);
+    },
+    
+    calls,
+    
+    fail(error = new Error('Fake Runtime Cache unavailable')) {
+      failure = error;
+    },
+    
+    recover() {
+      failure = null;
+    },
+    
+    clear() {
+      values.clear();
+    },
+  };
+}
+
+/**
+ * Controllable replacement for Date.now()
+ * Only Date.now() is replaced; timers keep running in real time.
+ */
+export interface FakeClock {
+  now(): number;
+  
+  /**
+   * Move the clock forward by the given number of milliseconds
+   */
+  advance(ms: number): void;
+  
+  /**
+   * Set the clock to the given timestamp
+   */
+  set(time: number): void;
+  
+  /**
+   * Restore the real Date.now()
+   */
+  uninstall(): void;
+}
+
+/**
+ * Replace Date.now() with a clock that only moves when told to
+ */
+export function installFakeClock(start: number = Date.now()): FakeClock {
+  const realNow = Date.now;
+  let current = start;
+  Date.now = () => current;
+  
+  return {
+    now: () => current,
+    advance(ms) {
+      current += ms;
+    },
+    set(time) {
+      current = time;
+    },
+    uninstall() {
+      Date.now = realNow;
+    },
+  };
+}
+
+/**
+ * Tracks background work (SWR refreshes and cache writes) so tests can await it
+ */
+export interface BackgroundTasks {
+  /**
+   * Pass as CachedFetchConfig.waitUntil
+   */
+  waitUntil(promise: Promise<unknown>): void;
+  
+  /**
+   * Number of tasks still running
+   */
+  readonly pending: number;
+  
+  /**
+   * Resolve once every task (including tasks scheduled while waiting) has finished
+   */
+  settle(): Promise<void>;
+}
+
+/**
+ * Create a waitUntil replacement that records scheduled tasks
+ */
+export function createBackgroundTasks(): BackgroundTasks {
+  const tasks = new Set<Promise<unknown>>();
+  
+  return {
+    waitUntil(promise) {
+      const task = promise.catch(() => {}).finally(() => tasks.delete(task));
+      tasks.add(task);
+    },
+    
+    get pending() {
+      return tasks.size;
+    },
+    
+    async settle() {
+      while (tasks.size > 0) {
+        await Promise.all(tasks);
+      }
+    },
+  };
+}
+
+/**
+ * Request received by a mock origin
+ */
+export interface MockOriginRequest {
+  method: string;
+  url: string;
+  headers: Headers;
+  body: string;
+}
+
+/**
+ * Answers mock origin requests with standard Request / Response objects
+ */
+export type MockOriginHandler = (request: Request) => Response | Promise<Response>;
+
+/**
+ * Local HTTP server standing in for an upstream API
+ */
+export interface MockOrigin {
+  /**
+   * Base URL of the server (e.g. http://127.0.0.1:54321)
+   */
+  url: string;
+  
+  /**
+   * Every request received so far, oldest first
+   */
+  requests: MockOriginRequest[];
+  
+  /**
+   * Replace the handler for following requests
+   */
+  setHandler(handler: MockOriginHandler): void;
+  
+  close(): Promise<void>;
+}
+
+/**
+ * Start a mock origin on a random local port
+ * Defaults to answering every request with 200 "ok".
+ */
+export async function startMockOrigin(handler: MockOriginHandler = () => new Response('ok')): Promise<MockOrigin> {
+  let currentHandler = handler;
+  const requests: MockOriginRequest[] = [];
+  
+  const server = createServer(async (req, res) => {
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+      }
+      const body = Buffer.concat(chunks);
+      
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(req.headers)) {
+        if (value !== undefined) {
+          headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+        }
+      }
+      
+      const method = req.method ?? 'GET';
+      const url = new URL(req.url ?? '/', `http://${req.headers.host}`).toString();
+      requests.push({ method, url, headers, body: body.toString('utf8') });
+      
+      const request = new Request(url, {
+        method,
+        headers,
+        body: method === 'GET' || method === 'HEAD' ? undefined : body,
+      });
+      const response = await currentHandler(request);
+      
+      const responseHeaders: Record<string, string | string[]> = {};
+      response.headers.forEach((value, name) => {
+        responseHeaders[name] = value;
+      });
+      const setCookies = response.headers.getSetCookie?.() ?? [];
+      if (setCookies.length > 0) {
+        responseHeaders['set-cookie'] = setCookies;
+      }
+      
+      res.writeHead(response.status, response.statusText, responseHeaders);
+      res.end(Buffer.from(await response.arrayBuffer()));
+    } catch (error) {
+      res.writeHead(500);
+      res.end(String(error));
+    }
+  });
+  
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    setHandler(nextHandler) {
+      currentHandler = nextHandler;
+    },
+    close() {
+      server.closeAllConnections?.();
+      return new Promise((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    },
+  };
+}
+
+/**
+ * A cachedFetch wired to a fake Runtime Cache and a background task tracker
+ */
+export interface TestCachedFetch {
+  cachedFetch: CachedFetch;
+  cache: FakeRuntimeCache;
+  background: BackgroundTasks;
+  
+  /**
+   * Await pending background refreshes and cache writes
+   */
+  settle(): Promise<void>;
+}
+
+/**
+ * Create a cachedFetch for tests
+ */
+export function createTestCachedFetch(config: Omit<CachedFetchConfig, 'store' | 'waitUntil'> = {}): TestCachedFetch {
+  const cache = createFakeRuntimeCache();
+  const background = createBackgroundTasks();
+  const cachedFetch = createCachedFetch({ ...config, store: cache, waitUntil: background.waitUntil });
+  
+  return { cachedFetch, cache, background, settle: () => background.settle() };
+}
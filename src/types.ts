@@ -2,14 +2,14 @@
  * Extended fetch options that mirror Next.js fetch API
  * 
  * The returned Response will include cache status headers:
- * - X-Cache-Status: 'HIT' | 'MISS' | 'STALE'
+ * - X-Cache-Status: 'HIT' | 'MISS' | 'STALE' | 'STALE-ERROR'
  * - X-Cache-Age: Age of cached data in seconds (0 for fresh/miss)
  * - X-Cache-Expires-In: Time until cache expires in seconds (if applicable)
  */
 export interface CachedFetchOptions extends Omit<RequestInit, 'cache'> {
   /**
    * Configure how the request should interact with the cache.
-   * - 'auto no cache' (default): Fetches on every request in development, once during build for static routes
+   * - 'auto no cache' (default): Fetches on every request in development (NODE_ENV=development), otherwise like 'force-cache'
    * - 'no-store': Always fetches from the remote server
    * - 'force-cache': Looks for a match in cache first, fetches if not found or stale
    */
@@ -35,9 +35,8 @@ export interface CachedFetchOptions extends Omit<RequestInit, 'cache'> {
     expires?: number;
     
     /**
-     * Set cache tags for manual cache invalidation
-     * Note: Tag-based revalidation is not automatically supported,
-     * but tags can be used with Vercel's cache APIs for manual clearing
+     * Set cache tags for on-demand invalidation
+     * Entries can be purged by tag with revalidateTag() / revalidateTags()
      */
     tags?: string[];
     
@@ -45,13 +44,200 @@ export interface CachedFetchOptions extends Omit<RequestInit, 'cache'> {
      * Optional prefix for cache key generation
      */
     fetchCacheKeyPrefix?: string;
+    
+    /**
+     * Customize which parts of the request make up the cache key
+     * - CacheKeyOptions: include/exclude headers, query params and cookies
+     * - function: build the key from the request yourself (hashed together with fetchCacheKeyPrefix)
+     * Defaults to the Next.js-compatible key (full URL and all headers except trace context)
+     */
+    cacheKey?: CacheKeyOptions | CacheKeyFunction;
+    
+    /**
+     * Derive freshness from the origin's HTTP caching headers
+     * - Cache-Control s-maxage / max-age (or Expires) set the revalidation time
+     * - stale-while-revalidate extends how long stale data is served
+     * - no-store, no-cache, private and Vary: * responses are not stored
+     * - Only request headers named in Vary are part of the cache key
+     * revalidate and expires are used as fallbacks when the origin sends no freshness information
+     */
+    respectCacheControl?: boolean;
+    
+    /**
+     * Keep serving an entry for this many seconds past its expiry when origin fails
+     * On network errors or staleIfErrorStatuses the last good entry is returned
+     * with X-Cache-Status: STALE-ERROR. With respectCacheControl, the origin's
+     * Cache-Control stale-if-error directive is used when this is not set.
+     */
+    staleIfError?: number;
+    
+    /**
+     * Origin status codes treated as failures for staleIfError
+     * Defaults to [500, 502, 503, 504]
+     */
+    staleIfErrorStatuses?: number[];
+    
+    /**
+     * Maximum response body size (in bytes) that is written to the cache
+     * Larger responses are still returned to the caller, just not cached
+     */
+    maxCacheableBytes?: number;
+    
+    /**
+     * Response status codes that are cached
+     * Replaces the default of any 2xx status, so list successful statuses too
+     * (e.g. [200, 404, 410] or [200, 301, 308] with redirect: 'manual')
+     */
+    cacheableStatuses?: number[];
+    
+    /**
+     * Request methods whose responses are cached (case-insensitive)
+     * Defaults to ['GET', 'POST', 'PUT']
+     */
+    cacheableMethods?: string[];
+    
+    /**
+     * Time-to-live (in seconds) for cached 4xx/5xx responses
+     * Negative results expire after this time without a stale window,
+     * instead of following revalidate / expires
+     */
+    negativeTtl?: number;
+    
+    /**
+     * Abort origin requests that don't respond with headers within this many milliseconds
+     * Applies to cache misses, background refreshes and the error fallback
+     */
+    timeoutMs?: number;
+    
+    /**
+     * Retry idempotent requests (GET, HEAD, OPTIONS, PUT, DELETE) this many times
+     * on network errors, timeouts and retryStatuses, with exponential backoff and jitter
+     */
+    retries?: number;
+    
+    /**
+     * Base delay (in milliseconds) for retry backoff
+     * Defaults to 100
+     */
+    retryDelayMs?: number;
+    
+    /**
+     * Origin status codes that are retried
+     * Defaults to [502, 503, 504]
+     */
+    retryStatuses?: number[];
+    
+    /**
+     * Randomly shorten revalidate / expires lifetimes by up to this fraction (0 to 1)
+     * so entries written at the same time (e.g. after a deploy) don't all go stale or expire together
+     */
+    jitter?: number;
+    
+    /**
+     * Probabilistic early revalidation (XFetch)
+     * Fresh entries are refreshed in the background slightly before they go stale,
+     * more likely the closer they are to revalidateAfter and the slower their origin.
+     * true uses beta = 1; larger numbers refresh earlier.
+     */
+    earlyRevalidation?: boolean | number;
+    
+    /**
+     * How the caller's identity (Authorization, Proxy-Authorization and Cookie headers) affects caching
+     * - 'public': identity headers are left out of the key, one entry is shared by every user;
+     *   Cache-Control: private responses are not stored
+     * - 'user': entries are keyed per identity; Cache-Control: private responses may be stored
+     * When unset, identity headers are part of the key like any other header and
+     * private responses are not stored
+     */
+    scope?: 'public' | 'user';
+    
+    /**
+     * Store responses that carry Set-Cookie
+     * By default such responses are not cached and Set-Cookie is never written to the cache
+     */
+    allowSetCookie?: boolean;
+    
+    /**
+     * Response headers that are never written to the cache (case-insensitive, supports '*' wildcards)
+     */
+    stripHeaders?: string[];
+    
+    /**
+     * Cache (and return) a derived value instead of the full response body
+     * Receives origin responses with a cacheable status; the JSON-serializable result
+     * becomes the body (content-type: application/json) on misses and hits alike.
+     * Requires transformKey; transformed entries use their own cache key.
+     */
+    transform?: (response: Response) => unknown | Promise<unknown>;
+    
+    /**
+     * Name of the transform, part of the transformed entry's cache key (required with transform)
+     * Give every transform that derives a different value its own name, including closures
+     * over different variables: the function source alone can't tell those apart.
+     */
+    transformKey?: string;
+    
+    /**
+     * The request being handled (e.g. the NextRequest passed to middleware)
+     * Enables draft mode bypass and client-triggered refreshes (see CachedFetchConfig.bypass)
+     */
+    incomingRequest?: { headers: Headers };
+    
+    /**
+     * Low-cardinality label for the request's route (e.g. '/products/:id')
+     * Reported as the http.route metric attribute and in hook events.
+     * Defaults to the name of the matching cache policy.
+     */
+    route?: string;
   };
 }
 
+/**
+ * Build a cache key from the outgoing request
+ */
+export type CacheKeyFunction = (request: Request) => string | Promise<string>;
+
+/**
+ * Include/exclude controls for cache key generation
+ * Name lists are case-insensitive for headers and support '*' wildcards (e.g. 'utm_*')
+ */
+export interface CacheKeyOptions {
+  /**
+   * Only these request headers are part of the key
+   */
+  includeHeaders?: string[];
+  
+  /**
+   * These request headers are never part of the key (e.g. 'authorization', 'x-request-id')
+   */
+  excludeHeaders?: string[];
+  
+  /**
+   * Query parameters left out of the key (e.g. 'utm_*', 'fbclid')
+   */
+  ignoreQueryParams?: string[];
+  
+  /**
+   * Sort query parameters so their order does not affect the key
+   */
+  sortQueryParams?: boolean;
+  
+  /**
+   * Only these cookies from the Cookie header are part of the key
+   */
+  includeCookies?: string[];
+  
+  /**
+   * These cookies from the Cookie header are never part of the key
+   */
+  excludeCookies?: string[];
+}
+
 /**
  * Cache entry structure
  */
 export interface CacheEntry {
+  version?: number; // Schema version, entries without one are from before versioning
   data: any;
   headers: Record<string, string>;
   status: number;
@@ -59,10 +245,642 @@ export interface CacheEntry {
   timestamp: number;
   revalidateAfter?: number; // Timestamp when revalidation should occur
   expiresAt?: number; // Timestamp when cache entry expires
+  staleIfErrorUntil?: number; // Timestamp until which the entry may be served when origin fails
   tags?: string[];
   // Binary metadata for safe replay
   isBinary?: boolean;
   contentType?: string;
+  // Set when data holds the base64 of the compressed body
+  compression?: CacheCompression;
+  // Set on manifest entries whose data is stored in separate chunk records
+  chunks?: CacheEntryChunks;
+  // Time (in milliseconds) origin took to respond, used for early revalidation
+  originLatency?: number;
+}
+
+/**
+ * Compression formats supported for stored bodies (via CompressionStream)
+ */
+export type CacheCompression = 'gzip' | 'deflate';
+
+/**
+ * Chunk manifest for entries split across multiple cache records
+ */
+export interface CacheEntryChunks {
+  id: string; // Unique per write so concurrent writers never mix chunks
+  count: number;
+}
+
+/**
+ * Tag invalidation record stored alongside cache entries
+ * Any entry carrying the tag that was written before revalidatedAt is treated as a miss
+ */
+export interface TagRevalidationRecord {
+  revalidatedAt: number; // Timestamp when the tag was last revalidated
+}
+
+/**
+ * Vary record stored per request (without headers) when respectCacheControl is enabled
+ * Lists the request headers that select the stored variant
+ */
+export interface VaryRecord {
+  headers: string[]; // Lowercased, sorted request header names from the Vary response header
+}
+
+/**
+ * Refresh lock record stored while an instance revalidates a stale entry
+ */
+export interface RefreshLockRecord {
+  owner: string; // Random token identifying the lock holder
+  lockedAt: number; // Timestamp when the lock was acquired
+}
+
+/**
+ * Options for writing a value to a CacheStore
+ */
+export interface CacheStoreSetOptions {
+  /**
+   * Time-to-live for the stored value (in seconds)
+   */
+  ttl?: number;
+  
+  /**
+   * Tags associated with the stored value
+   */
+  tags?: string[];
+}
+
+/**
+ * Storage backend used by cachedFetch for cache entries and tag records
+ * Values are plain JSON-serializable objects
+ */
+export interface CacheStore {
+  /**
+   * Retrieve a value, resolving to null or undefined when not found
+   */
+  get(key: string): Promise<unknown | null | undefined>;
+  
+  /**
+   * Store a value, optionally expiring it after options.ttl seconds
+   */
+  set(key: string, value: unknown, options?: CacheStoreSetOptions): Promise<void>;
+  
+  /**
+   * Remove a value
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Options for the bundled in-memory LRU store
+ */
+export interface MemoryStoreOptions {
+  /**
+   * Maximum number of values kept before the least recently used is evicted
+   * Defaults to 1000
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Options for the per-origin circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive failures (network errors, timeouts, 5xx) that open the circuit
+   * Defaults to 5
+   */
+  failureThreshold?: number;
+  
+  /**
+   * Time (in milliseconds) the circuit stays open before a trial request is let through
+   * Defaults to 30000
+   */
+  resetTimeoutMs?: number;
+}
+
+/**
+ * Options for the in-process L1 memory cache
+ */
+export interface MemoryCacheOptions {
+  /**
+   * Maximum number of entries kept in memory
+   * Defaults to 500
+   */
+  maxEntries?: number;
+  
+  /**
+   * Maximum approximate size of all entries (in bytes) kept in memory
+   * Defaults to 50 MB
+   */
+  maxBytes?: number;
+  
+  /**
+   * Maximum time (in seconds) an entry is served from memory before the store is consulted again
+   * Bounds how long entries deleted or replaced by other instances can be served
+   */
+  maxTtl?: number;
+  
+  /**
+   * Time (in seconds) tag revalidation records read from the store are kept in memory
+   * Lets tagged entries be served without a store round trip per tag. revalidateTag() on this
+   * instance applies at once; revalidations by other instances may take this long to be seen.
+   * Defaults to 1, 0 checks the store on every lookup.
+   */
+  tagTtl?: number;
+}
+
+/**
+ * Counters for the in-process L1 memory cache
+ */
+export interface MemoryCacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  entries: number; // Entries currently kept in memory
+  bytes: number; // Approximate size of the entries currently kept in memory
+}
+
+/**
+ * Request conditions of a cache policy; every condition given must match
+ * A policy without conditions matches every request (useful as a last catch-all).
+ */
+export interface CachePolicyMatch {
+  /**
+   * Hostname glob(s), e.g. 'api.example.com' or '*.example.com'
+   * '*' matches within one label, '**' across labels
+   */
+  host?: string | string[];
+  
+  /**
+   * Pathname glob(s), e.g. '/products/*' or '/api/**'
+   * '*' matches within one path segment, '**' across segments
+   */
+  path?: string | string[];
+  
+  /**
+   * HTTP method(s), case-insensitive
+   */
+  method?: string | string[];
+  
+  /**
+   * Any object with a test(url) method, e.g. new URLPattern({ pathname: '/products/:id' })
+   */
+  pattern?: { test(input: string): boolean };
+}
+
+/**
+ * Default next options for requests matching a set of conditions
+ */
+export interface CachePolicy {
+  /**
+   * Shown in verbose logs and returned by matchPolicy() to identify the policy
+   * Also the default next.route of matching requests.
+   */
+  name?: string;
+  match: CachePolicyMatch;
+  next: NonNullable<CachedFetchOptions['next']>;
+}
+
+/**
+ * Ordered cache policies created with defineCachePolicies()
+ */
+export interface CachePolicyTable {
+  readonly policies: readonly CachePolicy[];
+  
+  /**
+   * First policy matching the request, if any
+   */
+  match(input: RequestInfo | URL, init?: CachedFetchOptions): CachePolicy | undefined;
+  
+  /**
+   * Merge the matching policy's next options under the per-call ones
+   * Per-call next options take precedence; undefined values fall back to the policy.
+   */
+  apply(input: RequestInfo | URL, init?: CachedFetchOptions): CachedFetchOptions | undefined;
+}
+
+/**
+ * Which cache headers are added to responses, and under which names
+ * Use this to keep cache internals off responses forwarded to browsers.
+ */
+export interface CacheResponseHeaderOptions {
+  /**
+   * Header carrying HIT, STALE, STALE-ERROR, MISS, BYPASS or REFRESH, or false to omit it
+   * Defaults to 'X-Cache-Status'
+   */
+  status?: string | false;
+  
+  /**
+   * Header carrying the seconds since the entry was stored, or false to omit it
+   * Defaults to 'X-Cache-Age'
+   */
+  age?: string | false;
+  
+  /**
+   * Header carrying the seconds until the entry expires, or false to omit it
+   * Defaults to 'X-Cache-Expires-In'
+   */
+  expiresIn?: string | false;
+  
+  /**
+   * Add an RFC 9211 Cache-Status header (true, or the header name to use)
+   * e.g. cached-middleware-fetch; hit; ttl=42 or cached-middleware-fetch; fwd=miss; fwd-status=200
+   * Defaults to false
+   */
+  cacheStatus?: boolean | string;
+  
+  /**
+   * Cache identifier at the start of the Cache-Status entry
+   * Defaults to 'cached-middleware-fetch'
+   */
+  cacheName?: string;
+  
+  /**
+   * Include the cache key as the key parameter of Cache-Status
+   * Defaults to false
+   */
+  cacheStatusKey?: boolean;
+  
+  /**
+   * Set the standard Age header on responses served from the cache
+   * (the origin's Age plus the time the entry has been stored). Defaults to false
+   */
+  httpAge?: boolean;
+  
+  /**
+   * Append cache lookup and origin timings to a Server-Timing header (true, or the header name to use)
+   * Defaults to false
+   */
+  serverTiming?: boolean | string;
 }
 
+/**
+ * When requests skip the cache (BYPASS) or refetch and overwrite their entry (REFRESH)
+ * Draft mode and refresh triggers are read from next.incomingRequest.
+ */
+export interface CacheBypassOptions {
+  /**
+   * Skip the cache for 'auto no cache' requests when NODE_ENV is 'development'
+   * Defaults to true
+   */
+  development?: boolean;
+  
+  /**
+   * Skip the cache when the incoming request carries the Next.js draft mode cookie (__prerender_bypass)
+   * Defaults to true
+   */
+  draftMode?: boolean;
+  
+  /**
+   * Refetch and overwrite the entry when the incoming request sends Cache-Control: no-cache
+   * Off by default: browsers send this on hard reloads, so any visitor could send requests to origin at will.
+   * Prefer refreshHeader with a refreshSecret for client-triggered refreshes.
+   * Defaults to false
+   */
+  noCache?: boolean;
+  
+  /**
+   * Incoming request header that refetches and overwrites the entry (e.g. 'x-cache-refresh')
+   */
+  refreshHeader?: string;
+  
+  /**
+   * Value refreshHeader must have
+   * Without a secret (e.g. an unset environment variable) refreshHeader is ignored;
+   * pass false to let any value trigger a refresh.
+   */
+  refreshSecret?: string | false;
+}
+
+/**
+ * AES-GCM key for encrypting stored values
+ */
+export interface CacheEncryptionKey {
+  /**
+   * Stored with every value so the right key is used to decrypt it after a rotation
+   */
+  id: string;
+  
+  /**
+   * Base64-encoded 128, 192 or 256-bit key, or an AES-GCM CryptoKey
+   */
+  key: string | CryptoKey;
+}
+
+/**
+ * Encryption at rest for values written to the cache store
+ */
+export interface CacheEncryptionOptions {
+  /**
+   * Key used to encrypt new values (a base64 string uses the key id 'default')
+   */
+  key: string | CacheEncryptionKey;
+  
+  /**
+   * Additional keys that can still decrypt values, e.g. the previous key during a rotation
+   */
+  decryptionKeys?: CacheEncryptionKey[];
+}
+
+/**
+ * Configuration for createCachedFetch
+ */
+export interface CachedFetchConfig {
+  /**
+   * Storage backend for cache entries
+   * Defaults to Vercel Runtime Cache via createVercelRuntimeCacheStore()
+   */
+  store?: CacheStore;
+  
+  /**
+   * Compress stored response bodies with CompressionStream
+   * Entries are decompressed transparently when served
+   */
+  compression?: CacheCompression;
+  
+  /**
+   * Bodies smaller than this many bytes are stored uncompressed
+   * Defaults to 1024
+   */
+  compressionThreshold?: number;
+  
+  /**
+   * Split entries whose stored body is larger than this many characters
+   * into separate chunk records referenced by a manifest entry.
+   * Use this to stay under per-value size limits of the cache backend.
+   * With encryption, chunks are made smaller so encrypted chunk records stay within this size.
+   */
+  chunkSize?: number;
+  
+  /**
+   * Encrypt every value written to the store with AES-GCM
+   * Values that can't be decrypted (unknown key id, tampered or plaintext) are treated as misses.
+   */
+  encryption?: CacheEncryptionOptions;
+  
+  /**
+   * Keep fresh entries in an in-process LRU tier in front of the store
+   * Fresh hits are served from memory without a store lookup.
+   * Stale and expired entries are always looked up in the store.
+   */
+  memoryCache?: boolean | MemoryCacheOptions;
+  
+  /**
+   * Stop contacting an origin after repeated failures
+   * While open, cached entries (even stale or invalidated) are served with
+   * X-Cache-Status: STALE-ERROR and requests without one fail fast with CircuitOpenError
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+  
+  /**
+   * Extend the request lifetime for background refreshes and cache writes
+   * Defaults to waitUntil from @vercel/functions. Pass your platform's waitUntil
+   * (e.g. ctx.waitUntil) elsewhere, or a tracker from the testing entrypoint in tests.
+   */
+  waitUntil?: (promise: Promise<unknown>) => void;
+  
+  /**
+   * Default next options by host, path and method, created with defineCachePolicies()
+   * The first matching policy applies; per-call next options override it.
+   */
+  policies?: CachePolicyTable | CachePolicy[];
+  
+  /**
+   * When requests skip the cache or force a refresh (development, draft mode, Cache-Control: no-cache, refresh header)
+   */
+  bypass?: CacheBypassOptions;
+  
+  /**
+   * Names of the cache headers added to responses, and whether they are added at all
+   */
+  responseHeaders?: CacheResponseHeaderOptions;
+  
+  /**
+   * Structured event hooks for cache operations (hit ratio, origin latency, errors)
+   */
+  hooks?: CachedFetchHooks;
+  
+  /**
+   * Optional OpenTelemetry tracer and meter for spans and metrics
+   * Pass trace.getTracer(...) / metrics.getMeter(...) from @opentelemetry/api
+   */
+  telemetry?: CachedFetchTelemetry;
+}
+
+/**
+ * Details shared by every cache event
+ */
+export interface CacheEventBase {
+  key: string;
+  url: string;
+  method: string;
+  route?: string; // next.route, or the name of the matching cache policy
+  tags?: string[];
+}
 
+/**
+ * Emitted when a cached entry is served (fresh for onHit, stale for onStale)
+ */
+export interface CacheHitEvent extends CacheEventBase {
+  age: number; // Age of the entry in seconds
+  lookupMs: number; // Time spent reading the entry from the store
+}
+
+/**
+ * Emitted after a cache miss was answered by origin
+ */
+export interface CacheMissEvent extends CacheEventBase {
+  reason: 'not-found' | 'expired' | 'invalidated' | 'invalid';
+  status: number; // Origin response status
+  lookupMs: number;
+  originMs: number; // Time until origin response headers arrived
+}
+
+/**
+ * Emitted when a background revalidation of a stale entry finishes
+ */
+export interface CacheRevalidateEvent extends CacheEventBase {
+  outcome: 'updated' | 'not-modified' | 'not-cached' | 'skipped';
+  status?: number; // Origin response status, unset when skipped
+  originMs?: number;
+}
+
+/**
+ * Emitted after an entry was written to the store
+ */
+export interface CacheStoreEvent extends CacheEventBase {
+  ttl: number; // Store TTL in seconds
+  size: number; // Stored body size in characters
+  storeMs: number;
+}
+
+/**
+ * Emitted when a cache or origin operation fails
+ */
+export interface CacheErrorEvent extends CacheEventBase {
+  stage: 'cache' | 'origin' | 'store' | 'revalidate';
+  error: unknown;
+}
+
+/**
+ * Event hooks for cache operations
+ * Hooks never affect the response: exceptions and rejections are caught and logged.
+ */
+export interface CachedFetchHooks {
+  onHit?: (event: CacheHitEvent) => void | Promise<void>;
+  onStale?: (event: CacheHitEvent) => void | Promise<void>;
+  onMiss?: (event: CacheMissEvent) => void | Promise<void>;
+  onRevalidate?: (event: CacheRevalidateEvent) => void | Promise<void>;
+  onStore?: (event: CacheStoreEvent) => void | Promise<void>;
+  onError?: (event: CacheErrorEvent) => void | Promise<void>;
+}
+
+/**
+ * Attribute values accepted by telemetry spans and metrics
+ */
+export type TelemetryAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Minimal span interface (compatible with @opentelemetry/api Span)
+ */
+export interface TelemetrySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus?(status: { code: number; message?: string }): unknown;
+  recordException?(exception: any): unknown;
+  end(): void;
+}
+
+/**
+ * Minimal tracer interface (compatible with @opentelemetry/api Tracer)
+ */
+export interface TelemetryTracer {
+  startSpan(name: string, options?: { attributes?: TelemetryAttributes }): TelemetrySpan;
+}
+
+/**
+ * Minimal meter interface (compatible with @opentelemetry/api Meter)
+ */
+export interface TelemetryMeter {
+  createCounter(name: string, options?: { description?: string; unit?: string }): {
+    add(value: number, attributes?: TelemetryAttributes): void;
+  };
+  createHistogram(name: string, options?: { description?: string; unit?: string }): {
+    record(value: number, attributes?: TelemetryAttributes): void;
+  };
+}
+
+/**
+ * OpenTelemetry integration for cachedFetch
+ */
+export interface CachedFetchTelemetry {
+  tracer?: TelemetryTracer;
+  meter?: TelemetryMeter;
+}
+
+/**
+ * Caching options for cachedFunction(), mirroring the Next.js unstable_cache options
+ */
+export interface CachedFunctionOptions {
+  /**
+   * Seconds until the result is recomputed in the background (SWR)
+   * false caches the result indefinitely, 0 disables caching
+   */
+  revalidate?: number | false;
+  
+  /**
+   * Seconds until the stored result expires and is recomputed before responding
+   * Defaults to 24 hours or 10x revalidate, whichever is larger
+   */
+  expires?: number;
+  
+  /**
+   * Tags for invalidating the result with revalidateTag()
+   */
+  tags?: string[];
+}
+
+/**
+ * Parsed JSON body with cache metadata, returned by cachedFetchJson()
+ */
+export interface CachedJsonResult<T> {
+  data: T; // Shared between hits on the same entry, treat as read-only
+  status: number;
+  statusText: string;
+  headers: Headers;
+  cacheStatus: string; // HIT, STALE, STALE-ERROR, MISS, BYPASS or REFRESH
+  cacheAge: number; // Age of cached data in seconds (0 for fresh/miss)
+  expiresIn?: number; // Seconds until the entry expires, when known
+}
+
+/**
+ * A cachedFetch function bound to a specific cache store
+ */
+export interface CachedFetch {
+  (input: RequestInfo | URL, init?: CachedFetchOptions): Promise<Response>;
+  
+  /**
+   * Invalidate every entry in this store written with the given tag
+   */
+  revalidateTag(tag: string): Promise<void>;
+  
+  /**
+   * Invalidate every entry in this store written with any of the given tags
+   */
+  revalidateTags(tags: string[]): Promise<void>;
+  
+  /**
+   * Compute the key the entry for a request is stored under
+   * Pass the same init (next.cacheKey, fetchCacheKeyPrefix, ...) used with cachedFetch
+   */
+  computeKey(input: RequestInfo | URL, init?: CachedFetchOptions): Promise<string>;
+  
+  /**
+   * Read the stored entry for a request without fetching from origin
+   * Returns the entry as stored, including expired or tag-invalidated entries
+   */
+  peek(input: RequestInfo | URL, init?: CachedFetchOptions): Promise<CacheEntry | undefined>;
+  
+  /**
+   * Delete the stored entry for a request
+   * Resolves to false when no entry was stored
+   */
+  invalidate(input: RequestInfo | URL, init?: CachedFetchOptions): Promise<boolean>;
+  
+  /**
+   * Store a response for a request as if it had been fetched from origin
+   * Resolves to false when the body exceeds next.maxCacheableBytes
+   */
+  prime(input: RequestInfo | URL, response: Response, init?: CachedFetchOptions): Promise<boolean>;
+  
+  /**
+   * Fetch through the cache and return the parsed JSON body with cache metadata
+   * Rejects when the body is not valid JSON
+   */
+  json<T = unknown>(input: RequestInfo | URL, init?: CachedFetchOptions): Promise<CachedJsonResult<T>>;
+  
+  /**
+   * Wrap an async function so its results are cached like fetch responses
+   * Results are keyed by keyParts and the JSON-serialized arguments, and must be JSON-serializable.
+   */
+  cachedFunction<Args extends unknown[], R>(
+    fn: (...args: Args) => Promise<R>,
+    keyParts?: string[],
+    options?: CachedFunctionOptions
+  ): (...args: Args) => Promise<R>;
+  
+  /**
+   * Counters for the in-process memory cache (all zero when memoryCache is disabled)
+   */
+  memoryCacheStats(): MemoryCacheStats;
+  
+  /**
+   * Drop every entry from the in-process memory cache
+   */
+  clearMemoryCache(): void;
+  
+  /**
+   * Cache policy from config.policies that applies to a request (for debugging)
+   */
+  matchPolicy(input: RequestInfo | URL, init?: CachedFetchOptions): CachePolicy | undefined;
+}
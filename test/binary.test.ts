@@ -0,0 +1,40 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createTestCachedFetch, startMockOrigin, type MockOrigin } from '../src/testing';
+
+describe('binary bodies', () => {
+  let origin: MockOrigin;
+  const bytes = new Uint8Array(70_000).map((_, index) => (index * 31) % 256);
+  
+  beforeAll(async () => {
+    origin = await startMockOrigin(() => new Response(bytes, {
+      headers: { 'content-type': 'application/octet-stream' },
+    }));
+  });
+  
+  afterAll(async () => {
+    await origin.close();
+  });
+  
+  it('round-trips bytes exactly through the cache', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    
+    const miss = new Uint8Array(await (await cachedFetch(`${origin.url}/blob`, { next: { revalidate: 60 } })).arrayBuffer());
+    await settle();
+    const hit = await cachedFetch(`${origin.url}/blob`, { next: { revalidate: 60 } });
+    
+    expect(hit.headers.get('X-Cache-Status')).toBe('HIT');
+    expect(new Uint8Array(await hit.arrayBuffer())).toEqual(bytes);
+    expect(miss).toEqual(bytes);
+  });
+  
+  it('round-trips compressed and chunked entries', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch({ compression: 'gzip', compressionThreshold: 0, chunkSize: 16_384 });
+    
+    await (await cachedFetch(`${origin.url}/blob`, { next: { revalidate: 60 } })).arrayBuffer();
+    await settle();
+    const hit = await cachedFetch(`${origin.url}/blob`, { next: { revalidate: 60 } });
+    
+    expect(hit.headers.get('X-Cache-Status')).toBe('HIT');
+    expect(new Uint8Array(await hit.arrayBuffer())).toEqual(bytes);
+  });
+});
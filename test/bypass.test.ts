@@ -0,0 +1,129 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createTestCachedFetch, startMockOrigin, type MockOrigin } from '../src/testing';
+
+describe('bypass and refresh', () => {
+  let origin: MockOrigin;
+  let version = 0;
+  
+  beforeAll(async () => {
+    origin = await startMockOrigin(() => new Response(`version ${++version}`));
+  });
+  
+  afterAll(async () => {
+    await origin.close();
+  });
+  
+  beforeEach(() => {
+    version = 0;
+  });
+  
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+  
+  const incoming = (headers: HeadersInit) => new Request('https://site.example.com/page', { headers });
+  
+  it('bypasses auto no cache requests in development', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    const { cachedFetch, cache, settle } = createTestCachedFetch();
+    
+    const first = await cachedFetch(`${origin.url}/dev`, { next: { revalidate: 60 } });
+    await settle();
+    const forced = await cachedFetch(`${origin.url}/dev`, { cache: 'force-cache', next: { revalidate: 60 } });
+    
+    expect(first.headers.get('X-Cache-Status')).toBe('BYPASS');
+    expect(await first.text()).toBe('version 1');
+    expect(forced.headers.get('X-Cache-Status')).toBe('MISS');
+    expect(cache.size).toBe(0);
+  });
+  
+  it('can keep caching in development', async () => {
+    vi.stubEnv('NODE_ENV', 'development');
+    const { cachedFetch } = createTestCachedFetch({ bypass: { development: false } });
+    
+    const response = await cachedFetch(`${origin.url}/dev-cached`, { next: { revalidate: 60 } });
+    
+    expect(response.headers.get('X-Cache-Status')).toBe('MISS');
+  });
+  
+  it('bypasses the cache in draft mode', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch({ responseHeaders: { cacheStatus: true } });
+    
+    await (await cachedFetch(`${origin.url}/draft`, { next: { revalidate: 60 } })).text();
+    await settle();
+    const draft = await cachedFetch(`${origin.url}/draft`, {
+      next: { revalidate: 60, incomingRequest: incoming({ cookie: 'theme=dark; __prerender_bypass=abc' }) },
+    });
+    
+    expect(draft.headers.get('X-Cache-Status')).toBe('BYPASS');
+    expect(draft.headers.get('Cache-Status')).toBe('cached-middleware-fetch; fwd=bypass; fwd-status=200; detail="draft-mode"');
+    expect(await draft.text()).toBe('version 2');
+  });
+  
+  it('refreshes and overwrites the entry on Cache-Control: no-cache when enabled', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch({ bypass: { noCache: true } });
+    const url = `${origin.url}/refresh`;
+    
+    await (await cachedFetch(url, { next: { revalidate: 60 } })).text();
+    await settle();
+    const refreshed = await cachedFetch(url, {
+      next: { revalidate: 60, incomingRequest: incoming({ 'cache-control': 'no-cache' }) },
+    });
+    expect(refreshed.headers.get('X-Cache-Status')).toBe('REFRESH');
+    expect(await refreshed.text()).toBe('version 2');
+    await settle();
+    
+    const hit = await cachedFetch(url, { next: { revalidate: 60 } });
+    expect(hit.headers.get('X-Cache-Status')).toBe('HIT');
+    expect(await hit.text()).toBe('version 2');
+  });
+  
+  it('ignores Cache-Control: no-cache by default', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    const url = `${origin.url}/no-refresh`;
+    
+    await (await cachedFetch(url, { next: { revalidate: 60 } })).text();
+    await settle();
+    const response = await cachedFetch(url, {
+      next: { revalidate: 60, incomingRequest: incoming({ 'cache-control': 'no-cache' }) },
+    });
+    
+    expect(response.headers.get('X-Cache-Status')).toBe('HIT');
+  });
+  
+  it('refreshes only when the refresh header carries the secret', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch({
+      bypass: { refreshHeader: 'x-cache-refresh', refreshSecret: 's3cret' },
+    });
+    const url = `${origin.url}/secret`;
+    
+    await (await cachedFetch(url, { next: { revalidate: 60 } })).text();
+    await settle();
+    const wrong = await cachedFetch(url, {
+      next: { revalidate: 60, incomingRequest: incoming({ 'x-cache-refresh': 'guess' }) },
+    });
+    const right = await cachedFetch(url, {
+      next: { revalidate: 60, incomingRequest: incoming({ 'x-cache-refresh': 's3cret' }) },
+    });
+    
+    expect(wrong.headers.get('X-Cache-Status')).toBe('HIT');
+    expect(right.headers.get('X-Cache-Status')).toBe('REFRESH');
+  });
+  
+  it('ignores the refresh header without a secret unless any value is allowed', async () => {
+    const url = `${origin.url}/unset-secret`;
+    const withHeader = { next: { revalidate: 60, incomingRequest: incoming({ 'x-cache-refresh': 'anything' }) } };
+    
+    const unset = createTestCachedFetch({ bypass: { refreshHeader: 'x-cache-refresh', refreshSecret: undefined } });
+    await (await unset.cachedFetch(url, { next: { revalidate: 60 } })).text();
+    await unset.settle();
+    const ignored = await unset.cachedFetch(url, withHeader);
+    expect(ignored.headers.get('X-Cache-Status')).toBe('HIT');
+    
+    const open = createTestCachedFetch({ bypass: { refreshHeader: 'x-cache-refresh', refreshSecret: false } });
+    await (await open.cachedFetch(url, { next: { revalidate: 60 } })).text();
+    await open.settle();
+    const refreshed = await open.cachedFetch(url, withHeader);
+    expect(refreshed.headers.get('X-Cache-Status')).toBe('REFRESH');
+  });
+});
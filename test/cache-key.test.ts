@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createTestCachedFetch, startMockOrigin, type MockOrigin } from '../src/testing';
+
+describe('cache keys', () => {
+  let origin: MockOrigin;
+  
+  beforeAll(async () => {
+    origin = await startMockOrigin();
+  });
+  
+  afterAll(async () => {
+    await origin.close();
+  });
+  
+  it('is stable for identical requests', async () => {
+    const { cachedFetch } = createTestCachedFetch();
+    const first = await cachedFetch.computeKey(`${origin.url}/items`);
+    const second = await cachedFetch.computeKey(`${origin.url}/items`);
+    
+    expect(first).toBe(second);
+  });
+  
+  it('ignores tracing headers', async () => {
+    const { cachedFetch } = createTestCachedFetch();
+    const plain = await cachedFetch.computeKey(`${origin.url}/items`);
+    const traced = await cachedFetch.computeKey(`${origin.url}/items`, {
+      headers: { traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' },
+    });
+    
+    expect(traced).toBe(plain);
+  });
+  
+  it('differs by url and method', async () => {
+    const { cachedFetch } = createTestCachedFetch();
+    const a = await cachedFetch.computeKey(`${origin.url}/a`);
+    const b = await cachedFetch.computeKey(`${origin.url}/b`);
+    const post = await cachedFetch.computeKey(`${origin.url}/a`, { method: 'POST', body: '' });
+    
+    expect(a).not.toBe(b);
+    expect(post).not.toBe(a);
+  });
+  
+  it('differs by request body', async () => {
+    const { cachedFetch } = createTestCachedFetch();
+    const one = await cachedFetch.computeKey(`${origin.url}/graphql`, { method: 'POST', body: '{"query":"one"}' });
+    const two = await cachedFetch.computeKey(`${origin.url}/graphql`, { method: 'POST', body: '{"query":"two"}' });
+    
+    expect(one).not.toBe(two);
+  });
+  
+  it('differs by the body of a Request input', async () => {
+    const { cachedFetch } = createTestCachedFetch();
+    const request = (body: string) => new Request(`${origin.url}/graphql`, { method: 'POST', body });
+    const one = await cachedFetch.computeKey(request('query one'));
+    const two = await cachedFetch.computeKey(request('query two'));
+    const init = await cachedFetch.computeKey(`${origin.url}/graphql`, { method: 'POST', body: 'query one' });
+    
+    expect(one).not.toBe(two);
+    expect(one).toBe(init);
+  });
+  
+  it('distinguishes binary bodies byte for byte', async () => {
+    const { cachedFetch } = createTestCachedFetch();
+    // Both decode to U+FFFD as UTF-8 text, so only byte-exact hashing tells them apart
+    const one = await cachedFetch.computeKey(`${origin.url}/upload`, { method: 'POST', body: new Uint8Array([0xff]) });
+    const two = await cachedFetch.computeKey(`${origin.url}/upload`, { method: 'POST', body: new Uint8Array([0xfe]) });
+    
+    expect(one).not.toBe(two);
+  });
+  
+  it('ignores configured query parameters', async () => {
+    const { cachedFetch } = createTestCachedFetch();
+    const init = { next: { cacheKey: { ignoreQueryParams: ['utm_*'] } } };
+    const plain = await cachedFetch.computeKey(`${origin.url}/items?page=1`, init);
+    const tracked = await cachedFetch.computeKey(`${origin.url}/items?page=1&utm_source=mail`, init);
+    
+    expect(tracked).toBe(plain);
+  });
+  
+  it('uses a custom key function in place of the request', async () => {
+    const { cachedFetch } = createTestCachedFetch();
+    const init = { next: { cacheKey: () => 'items-list' } };
+    const first = await cachedFetch.computeKey(`${origin.url}/items?page=1`, init);
+    const second = await cachedFetch.computeKey(`${origin.url}/items?page=2`, init);
+    
+    expect(first).toBe(second);
+  });
+});
@@ -0,0 +1,403 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { CircuitOpenError, OriginTimeoutError, createCachedFetch } from '../src';
+import {
+  createBackgroundTasks,
+  createFakeRuntimeCache,
+  createTestCachedFetch,
+  installFakeClock,
+  startMockOrigin,
+  type FakeClock,
+  type MockOrigin,
+} from '../src/testing';
+
+describe('cachedFetch', () => {
+  let origin: MockOrigin;
+  let clock: FakeClock;
+  let hits = 0;
+  
+  beforeAll(async () => {
+    origin = await startMockOrigin();
+  });
+  
+  afterAll(async () => {
+    await origin.close();
+  });
+  
+  beforeEach(() => {
+    hits = 0;
+    origin.requests.length = 0;
+    origin.setHandler(() => new Response(`version ${++hits}`));
+    clock = installFakeClock(Date.UTC(2025, 0, 1));
+  });
+  
+  afterEach(() => {
+    clock.uninstall();
+  });
+  
+  it('caches a response and serves it as a HIT', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    
+    const miss = await cachedFetch(`${origin.url}/data`, { next: { revalidate: 60 } });
+    expect(miss.headers.get('X-Cache-Status')).toBe('MISS');
+    expect(await miss.text()).toBe('version 1');
+    await settle();
+    
+    const hit = await cachedFetch(`${origin.url}/data`, { next: { revalidate: 60 } });
+    expect(hit.headers.get('X-Cache-Status')).toBe('HIT');
+    expect(await hit.text()).toBe('version 1');
+    expect(origin.requests).toHaveLength(1);
+  });
+  
+  it('serves STALE and refreshes in the background after revalidate', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    const init = { next: { revalidate: 60, expires: 3600 } };
+    
+    await (await cachedFetch(`${origin.url}/data`, init)).text();
+    await settle();
+    clock.advance(61_000);
+    
+    const stale = await cachedFetch(`${origin.url}/data`, init);
+    expect(stale.headers.get('X-Cache-Status')).toBe('STALE');
+    expect(await stale.text()).toBe('version 1');
+    await settle();
+    
+    const refreshed = await cachedFetch(`${origin.url}/data`, init);
+    expect(refreshed.headers.get('X-Cache-Status')).toBe('HIT');
+    expect(await refreshed.text()).toBe('version 2');
+  });
+  
+  it('keeps the stored body when a background refresh gets 304 Not Modified', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    origin.setHandler(request => request.headers.get('if-none-match') === '"v1"'
+      ? new Response(null, { status: 304, headers: { etag: '"v1"' } })
+      : new Response(`version ${++hits}`, { headers: { etag: '"v1"' } }));
+    const init = { next: { revalidate: 60, expires: 3600 } };
+    
+    await (await cachedFetch(`${origin.url}/data`, init)).text();
+    await settle();
+    clock.advance(61_000);
+    
+    const stale = await cachedFetch(`${origin.url}/data`, init);
+    expect(stale.headers.get('X-Cache-Status')).toBe('STALE');
+    await stale.text();
+    await settle();
+    
+    expect(origin.requests[1].headers.get('if-none-match')).toBe('"v1"');
+    const refreshed = await cachedFetch(`${origin.url}/data`, init);
+    expect(refreshed.headers.get('X-Cache-Status')).toBe('HIT');
+    expect(refreshed.headers.get('X-Cache-Age')).toBe('0');
+    expect(await refreshed.text()).toBe('version 1');
+  });
+  
+  it('misses once the entry has expired', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    const init = { next: { revalidate: 60, expires: 120 } };
+    
+    await (await cachedFetch(`${origin.url}/data`, init)).text();
+    await settle();
+    clock.advance(121_000);
+    
+    const expired = await cachedFetch(`${origin.url}/data`, init);
+    expect(expired.headers.get('X-Cache-Status')).toBe('MISS');
+    expect(await expired.text()).toBe('version 2');
+  });
+  
+  it('expires cached error responses after negativeTtl', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    origin.setHandler(() => new Response(`not found ${++hits}`, { status: 404 }));
+    const init = { next: { revalidate: 3600, cacheableStatuses: [200, 404], negativeTtl: 30 } };
+    
+    await (await cachedFetch(`${origin.url}/missing`, init)).text();
+    await settle();
+    
+    const hit = await cachedFetch(`${origin.url}/missing`, init);
+    expect(hit.headers.get('X-Cache-Status')).toBe('HIT');
+    expect(hit.status).toBe(404);
+    expect(await hit.text()).toBe('not found 1');
+    
+    clock.advance(31_000);
+    const expired = await cachedFetch(`${origin.url}/missing`, init);
+    expect(expired.headers.get('X-Cache-Status')).toBe('MISS');
+    expect(await expired.text()).toBe('not found 2');
+  });
+  
+  it('does not cache when cache is no-store', async () => {
+    const { cachedFetch, cache, settle } = createTestCachedFetch();
+    
+    await (await cachedFetch(`${origin.url}/data`, { cache: 'no-store' })).text();
+    await settle();
+    
+    expect(cache.size).toBe(0);
+  });
+  
+  it('invalidates entries by tag', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    const init = { next: { revalidate: 60, tags: ['products'] } };
+    
+    await (await cachedFetch(`${origin.url}/products`, init)).text();
+    await settle();
+    clock.advance(1_000);
+    await cachedFetch.revalidateTag('products');
+    clock.advance(1_000);
+    
+    const afterInvalidation = await cachedFetch(`${origin.url}/products`, init);
+    expect(afterInvalidation.headers.get('X-Cache-Status')).toBe('MISS');
+    expect(await afterInvalidation.text()).toBe('version 2');
+  });
+  
+  it('serves tagged memory cache hits without reading tag records from the store', async () => {
+    const { cachedFetch, cache, settle } = createTestCachedFetch({ memoryCache: { tagTtl: 5 } });
+    const init = { next: { revalidate: 60, tags: ['products'] } };
+    
+    await (await cachedFetch(`${origin.url}/products`, init)).text();
+    await settle();
+    await (await cachedFetch(`${origin.url}/products`, init)).text();
+    const storeReads = cache.calls.get;
+    
+    const hit = await cachedFetch(`${origin.url}/products`, init);
+    expect(hit.headers.get('X-Cache-Status')).toBe('HIT');
+    expect(cache.calls.get).toBe(storeReads);
+    
+    clock.advance(1_000);
+    await cachedFetch.revalidateTag('products');
+    const afterInvalidation = await cachedFetch(`${origin.url}/products`, init);
+    expect(afterInvalidation.headers.get('X-Cache-Status')).toBe('MISS');
+    expect(await afterInvalidation.text()).toBe('version 2');
+  });
+  
+  it('schedules cache writes through the configured waitUntil', async () => {
+    const cache = createFakeRuntimeCache();
+    const background = createBackgroundTasks();
+    // Count calls instead of checking pending tasks, which may already have finished
+    let scheduled = 0;
+    const cachedFetch = createCachedFetch({
+      store: cache,
+      waitUntil: (promise) => {
+        scheduled++;
+        background.waitUntil(promise);
+      },
+    });
+    
+    await (await cachedFetch(`${origin.url}/data`, { next: { revalidate: 60 } })).text();
+    expect(scheduled).toBe(1);
+    
+    await background.settle();
+    expect(background.pending).toBe(0);
+    expect(cache.size).toBeGreaterThan(0);
+  });
+  
+  it('selects Vary variants by the headers of a Request input', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    origin.setHandler(request => new Response(`hello in ${request.headers.get('accept-language')}`, {
+      headers: { vary: 'Accept-Language' },
+    }));
+    const init = { next: { revalidate: 60, respectCacheControl: true } };
+    const request = (language: string) => new Request(`${origin.url}/greeting`, { headers: { 'accept-language': language } });
+    
+    await (await cachedFetch(request('en'), init)).text();
+    await settle();
+    
+    const french = await cachedFetch(request('fr'), init);
+    expect(french.headers.get('X-Cache-Status')).toBe('MISS');
+    expect(await french.text()).toBe('hello in fr');
+    await settle();
+    
+    const english = await cachedFetch(request('en'), init);
+    expect(english.headers.get('X-Cache-Status')).toBe('HIT');
+    expect(await english.text()).toBe('hello in en');
+  });
+  
+  it('keys user-scoped entries by the identity headers of a Request input', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    origin.setHandler(request => new Response(`account of ${request.headers.get('authorization')}`, {
+      headers: { 'cache-control': 'private' },
+    }));
+    const init = { next: { revalidate: 60, scope: 'user' as const } };
+    const request = (user: string) => new Request(`${origin.url}/account`, { headers: { authorization: user } });
+    
+    await (await cachedFetch(request('alice'), init)).text();
+    await settle();
+    
+    const bob = await cachedFetch(request('bob'), init);
+    expect(bob.headers.get('X-Cache-Status')).toBe('MISS');
+    expect(await bob.text()).toBe('account of bob');
+  });
+  
+  it('does not share personal responses between concurrent callers', async () => {
+    const { cachedFetch } = createTestCachedFetch();
+    origin.setHandler(async request => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      const user = request.headers.get('authorization') ?? 'anonymous';
+      return new Response(`hello ${user}`, { headers: { 'set-cookie': `session=${user}` } });
+    });
+    const init = (user?: string) => ({
+      headers: user ? { authorization: user } : undefined,
+      next: { revalidate: 60, scope: 'public' as const },
+    });
+    
+    const [alice, bob, first, second] = await Promise.all([
+      cachedFetch(`${origin.url}/greeting`, init('alice')),
+      cachedFetch(`${origin.url}/greeting`, init('bob')),
+      cachedFetch(`${origin.url}/greeting`, init()),
+      cachedFetch(`${origin.url}/greeting`, init()),
+    ]);
+    
+    expect(await alice.text()).toBe('hello alice');
+    expect(await bob.text()).toBe('hello bob');
+    expect(await first.text()).toBe('hello anonymous');
+    expect(await second.text()).toBe('hello anonymous');
+    expect(origin.requests).toHaveLength(4);
+  });
+  
+  it('falls through to the origin when the cache is unavailable', async () => {
+    const { cachedFetch, cache } = createTestCachedFetch();
+    cache.fail();
+    
+    const response = await cachedFetch(`${origin.url}/data`, { next: { revalidate: 60 } });
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('version 1');
+  });
+  
+  it('serves the expired entry while origin responds with an error status', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    const init = { next: { revalidate: 60, expires: 120, staleIfError: 600 } };
+    
+    await (await cachedFetch(`${origin.url}/data`, init)).text();
+    await settle();
+    clock.advance(300_000);
+    origin.setHandler(() => new Response('unavailable', { status: 503 }));
+    
+    const stale = await cachedFetch(`${origin.url}/data`, init);
+    expect(stale.headers.get('X-Cache-Status')).toBe('STALE-ERROR');
+    expect(stale.status).toBe(200);
+    expect(await stale.text()).toBe('version 1');
+    
+    // Past the stale-if-error window the origin error is returned
+    clock.advance(500_000);
+    const failed = await cachedFetch(`${origin.url}/data`, init);
+    expect(failed.headers.get('X-Cache-Status')).toBe('MISS');
+    expect(failed.status).toBe(503);
+  });
+  
+  it('serves the expired entry when the origin request throws', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    const init = { next: { revalidate: 60, expires: 120, staleIfError: 600, timeoutMs: 50 } };
+    
+    await (await cachedFetch(`${origin.url}/data`, init)).text();
+    await settle();
+    clock.advance(121_000);
+    origin.setHandler(async () => {
+      await new Promise(resolve => setTimeout(resolve, 200));
+      return new Response('too late');
+    });
+    
+    const stale = await cachedFetch(`${origin.url}/data`, init);
+    expect(stale.headers.get('X-Cache-Status')).toBe('STALE-ERROR');
+    expect(await stale.text()).toBe('version 1');
+  });
+  
+  it('keeps entries in the store until the stale-if-error window ends', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    const withWindow = { next: { revalidate: 60, expires: 120, staleIfError: 600 } };
+    const withoutWindow = { next: { revalidate: 60, expires: 120 } };
+    
+    await (await cachedFetch(`${origin.url}/with-window`, withWindow)).text();
+    await (await cachedFetch(`${origin.url}/without-window`, withoutWindow)).text();
+    await settle();
+    clock.advance(300_000);
+    
+    expect(await cachedFetch.peek(`${origin.url}/with-window`, withWindow)).toBeDefined();
+    expect(await cachedFetch.peek(`${origin.url}/without-window`, withoutWindow)).toBeUndefined();
+  });
+  
+  it('serves the expired entry when the fetch after a cache error fails too', async () => {
+    // Recording the origin timing throws, so the request falls back to a plain origin fetch
+    const meter = {
+      createCounter: () => ({ add: () => {} }),
+      createHistogram: () => ({
+        record: (_value: number, attributes?: Record<string, unknown>) => {
+          if (attributes?.['cache.operation'] === 'origin') throw new Error('Meter unavailable');
+        },
+      }),
+    };
+    const { cachedFetch } = createTestCachedFetch({ telemetry: { meter } });
+    const init = { next: { revalidate: 60, expires: 120, staleIfError: 600 } };
+    
+    await cachedFetch.prime(`${origin.url}/data`, new Response('primed'), init);
+    clock.advance(121_000);
+    origin.setHandler(() => new Response('unavailable', { status: 503 }));
+    
+    const stale = await cachedFetch(`${origin.url}/data`, init);
+    expect(stale.headers.get('X-Cache-Status')).toBe('STALE-ERROR');
+    expect(await stale.text()).toBe('primed');
+    expect(origin.requests).toHaveLength(2);
+  });
+  
+  it('aborts origin requests that exceed timeoutMs', async () => {
+    const { cachedFetch } = createTestCachedFetch();
+    origin.setHandler(async () => {
+      await new Promise(resolve => setTimeout(resolve, 200));
+      return new Response('too late');
+    });
+    
+    await expect(cachedFetch(`${origin.url}/slow`, { next: { revalidate: 60, timeoutMs: 50 } }))
+      .rejects.toBeInstanceOf(OriginTimeoutError);
+  });
+  
+  it('retries failed origin requests for idempotent methods only', async () => {
+    const { cachedFetch } = createTestCachedFetch();
+    origin.setHandler(() => ++hits % 2 === 1
+      ? new Response('unavailable', { status: 503 })
+      : new Response(`version ${hits}`));
+    const next = { revalidate: 60, retries: 1, retryDelayMs: 1 };
+    
+    const get = await cachedFetch(`${origin.url}/retry`, { next });
+    expect(get.status).toBe(200);
+    expect(origin.requests).toHaveLength(2);
+    
+    const post = await cachedFetch(`${origin.url}/retry`, { method: 'POST', body: 'payload', next });
+    expect(post.status).toBe(503);
+    expect(origin.requests).toHaveLength(3);
+  });
+  
+  it('opens the circuit after repeated failures and probes once the reset timeout passed', async () => {
+    const { cachedFetch } = createTestCachedFetch({ circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 1_000 } });
+    origin.setHandler(() => new Response('unavailable', { status: 503 }));
+    const request = () => cachedFetch(`${origin.url}/flaky`, { cache: 'no-store' });
+    
+    await (await request()).text();
+    await (await request()).text();
+    await expect(request()).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(origin.requests).toHaveLength(2);
+    
+    // A failed probe opens the circuit again
+    clock.advance(1_001);
+    await (await request()).text();
+    await expect(request()).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(origin.requests).toHaveLength(3);
+    
+    // A successful probe closes it
+    clock.advance(1_001);
+    origin.setHandler(() => new Response('recovered'));
+    expect(await (await request()).text()).toBe('recovered');
+    expect(await (await request()).text()).toBe('recovered');
+    expect(origin.requests).toHaveLength(5);
+  });
+  
+  it('serves any stored entry while the circuit is open', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch({ circuitBreaker: { failureThreshold: 1 } });
+    const init = { next: { revalidate: 60, tags: ['data'] } };
+    
+    await (await cachedFetch(`${origin.url}/data`, init)).text();
+    await settle();
+    clock.advance(1_000);
+    await cachedFetch.revalidateTag('data');
+    origin.setHandler(() => new Response('unavailable', { status: 503 }));
+    await (await cachedFetch(`${origin.url}/other`, { cache: 'no-store' })).text();
+    
+    const fallback = await cachedFetch(`${origin.url}/data`, init);
+    expect(fallback.headers.get('X-Cache-Status')).toBe('STALE-ERROR');
+    expect(await fallback.text()).toBe('version 1');
+    expect(origin.requests).toHaveLength(2);
+  });
+});
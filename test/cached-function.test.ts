@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createTestCachedFetch, installFakeClock, type FakeClock } from '../src/testing';
+
+describe('cachedFunction', () => {
+  let clock: FakeClock;
+  
+  beforeEach(() => {
+    clock = installFakeClock(Date.UTC(2025, 0, 1));
+  });
+  
+  afterEach(() => {
+    clock.uninstall();
+  });
+  
+  it('caches results per argument list', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    let calls = 0;
+    const resolveRoute = cachedFetch.cachedFunction(
+      async (path: string) => ({ path, rewrite: `/internal${path}`, call: ++calls }),
+      ['routes'],
+      { revalidate: 60 }
+    );
+    
+    expect(await resolveRoute('/a')).toEqual({ path: '/a', rewrite: '/internal/a', call: 1 });
+    await settle();
+    expect(await resolveRoute('/a')).toEqual({ path: '/a', rewrite: '/internal/a', call: 1 });
+    expect(await resolveRoute('/b')).toMatchObject({ path: '/b', call: 2 });
+  });
+  
+  it('serves stale results while recomputing in the background', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    let version = 0;
+    const getVersion = cachedFetch.cachedFunction(async () => ++version, ['version'], { revalidate: 60, expires: 3600 });
+    
+    expect(await getVersion()).toBe(1);
+    await settle();
+    clock.advance(61_000);
+    
+    expect(await getVersion()).toBe(1);
+    await settle();
+    expect(await getVersion()).toBe(2);
+  });
+  
+  it('recomputes expired results before returning', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    let version = 0;
+    const getVersion = cachedFetch.cachedFunction(async () => ++version, ['expiring'], { revalidate: 60, expires: 120 });
+    
+    await getVersion();
+    await settle();
+    clock.advance(121_000);
+    
+    expect(await getVersion()).toBe(2);
+  });
+  
+  it('is invalidated by tags', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    let version = 0;
+    const getVersion = cachedFetch.cachedFunction(async () => ++version, ['tagged'], { revalidate: false, tags: ['config'] });
+    
+    await getVersion();
+    await settle();
+    clock.advance(1_000);
+    await cachedFetch.revalidateTag('config');
+    clock.advance(1_000);
+    
+    expect(await getVersion()).toBe(2);
+  });
+  
+  it('shares one computation between concurrent calls', async () => {
+    const { cachedFetch } = createTestCachedFetch();
+    let calls = 0;
+    const slow = cachedFetch.cachedFunction(async () => {
+      calls++;
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return 'done';
+    }, ['slow']);
+    
+    expect(await Promise.all([slow(), slow(), slow()])).toEqual(['done', 'done', 'done']);
+    expect(calls).toBe(1);
+  });
+  
+  it('round-trips undefined results and does not cache with revalidate: 0', async () => {
+    const { cachedFetch, cache, settle } = createTestCachedFetch();
+    const nothing = cachedFetch.cachedFunction(async () => undefined, ['nothing']);
+    const uncached = cachedFetch.cachedFunction(async () => 'fresh', ['uncached'], { revalidate: 0 });
+    
+    await nothing();
+    await settle();
+    expect(await nothing()).toBeUndefined();
+    
+    const sizeBefore = cache.size;
+    expect(await uncached()).toBe('fresh');
+    await settle();
+    expect(cache.size).toBe(sizeBefore);
+  });
+  
+  it('falls back to calling the function when the cache fails', async () => {
+    const { cachedFetch, cache } = createTestCachedFetch();
+    const compute = cachedFetch.cachedFunction(async (n: number) => n * 2, ['double']);
+    cache.fail();
+    
+    expect(await compute(21)).toBe(42);
+  });
+});
@@ -0,0 +1,122 @@
+import { randomBytes } from 'node:crypto';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createCachedFetch } from '../src';
+import {
+  createBackgroundTasks,
+  createFakeRuntimeCache,
+  startMockOrigin,
+  type FakeRuntimeCache,
+  type MockOrigin,
+} from '../src/testing';
+import type { CacheEncryptionOptions } from '../src';
+
+describe('encryption at rest', () => {
+  let origin: MockOrigin;
+  let version = 0;
+  const oldKey = randomBytes(32).toString('base64');
+  const newKey = randomBytes(32).toString('base64');
+  
+  beforeAll(async () => {
+    origin = await startMockOrigin(() => Response.json({ price: 42, tier: 'gold', version: ++version }));
+  });
+  
+  afterAll(async () => {
+    await origin.close();
+  });
+  
+  const setup = (cache: FakeRuntimeCache, encryption?: CacheEncryptionOptions) => {
+    const background = createBackgroundTasks();
+    const cachedFetch = createCachedFetch({ store: cache, encryption, waitUntil: background.waitUntil });
+    return { cachedFetch, settle: () => background.settle() };
+  };
+  
+  const rawValues = async (cache: FakeRuntimeCache) =>
+    Promise.all(cache.keys().map(key => cache.get(key)));
+  
+  it('stores only ciphertext and serves hits', async () => {
+    const cache = createFakeRuntimeCache();
+    const { cachedFetch, settle } = setup(cache, { key: newKey });
+    
+    const miss = await (await cachedFetch(`${origin.url}/price`, { next: { revalidate: 60 } })).json();
+    await settle();
+    const hit = await cachedFetch(`${origin.url}/price`, { next: { revalidate: 60 } });
+    
+    expect(hit.headers.get('X-Cache-Status')).toBe('HIT');
+    expect(await hit.json()).toEqual(miss);
+    
+    const stored = JSON.stringify(await rawValues(cache));
+    expect(stored).toContain('"encryption":"AES-GCM"');
+    expect(stored).not.toContain('gold');
+  });
+  
+  it('decrypts entries written with a rotated-out key', async () => {
+    const cache = createFakeRuntimeCache();
+    const before = setup(cache, { key: { id: 'k1', key: oldKey } });
+    await (await before.cachedFetch(`${origin.url}/rotate`, { next: { revalidate: 60 } })).text();
+    await before.settle();
+    
+    const after = setup(cache, { key: { id: 'k2', key: newKey }, decryptionKeys: [{ id: 'k1', key: oldKey }] });
+    const hit = await after.cachedFetch(`${origin.url}/rotate`, { next: { revalidate: 60 } });
+    
+    expect(hit.headers.get('X-Cache-Status')).toBe('HIT');
+  });
+  
+  it('treats entries it cannot decrypt as misses', async () => {
+    const cache = createFakeRuntimeCache();
+    const writer = setup(cache, { key: { id: 'k1', key: oldKey } });
+    await (await writer.cachedFetch(`${origin.url}/unknown`, { next: { revalidate: 60 } })).text();
+    await writer.settle();
+    
+    const unknownKey = setup(cache, { key: { id: 'k2', key: newKey } });
+    const wrongKey = setup(cache, { key: { id: 'k1', key: newKey } });
+    
+    expect((await unknownKey.cachedFetch(`${origin.url}/unknown`, { next: { revalidate: 60 } })).headers.get('X-Cache-Status')).toBe('MISS');
+    expect((await wrongKey.cachedFetch(`${origin.url}/unknown`, { next: { revalidate: 60 } })).headers.get('X-Cache-Status')).toBe('MISS');
+  });
+  
+  it('ignores plaintext values written without encryption', async () => {
+    const cache = createFakeRuntimeCache();
+    const plain = setup(cache);
+    await (await plain.cachedFetch(`${origin.url}/plain`, { next: { revalidate: 60 } })).text();
+    await plain.settle();
+    
+    const encrypted = setup(cache, { key: newKey });
+    const response = await encrypted.cachedFetch(`${origin.url}/plain`, { next: { revalidate: 60 } });
+    
+    expect(response.headers.get('X-Cache-Status')).toBe('MISS');
+  });
+  
+  it('keeps encrypted chunk records within chunkSize', async () => {
+    const body = randomBytes(20_000);
+    const binaryOrigin = await startMockOrigin(() => new Response(body, {
+      headers: { 'content-type': 'application/octet-stream' },
+    }));
+    const cache = createFakeRuntimeCache();
+    const background = createBackgroundTasks();
+    const cachedFetch = createCachedFetch({
+      store: cache,
+      chunkSize: 4096,
+      encryption: { key: newKey },
+      waitUntil: background.waitUntil,
+    });
+    
+    try {
+      await (await cachedFetch(`${binaryOrigin.url}/blob`, { next: { revalidate: 60 } })).arrayBuffer();
+      await background.settle();
+      
+      const sizes = (await rawValues(cache)).map(value => JSON.stringify(value).length);
+      expect(sizes.length).toBeGreaterThan(2);
+      sizes.forEach(size => expect(size).toBeLessThanOrEqual(4096));
+      
+      const hit = await cachedFetch(`${binaryOrigin.url}/blob`, { next: { revalidate: 60 } });
+      expect(hit.headers.get('X-Cache-Status')).toBe('HIT');
+      expect(Buffer.from(await hit.arrayBuffer()).equals(body)).toBe(true);
+    } finally {
+      await binaryOrigin.close();
+    }
+  });
+  
+  it('rejects keys of the wrong size', () => {
+    expect(() => createCachedFetch({ store: createFakeRuntimeCache(), encryption: { key: 'c2hvcnQ=' } })).toThrow(TypeError);
+  });
+});
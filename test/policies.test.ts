@@ -0,0 +1,86 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { defineCachePolicies } from '../src';
+import { createTestCachedFetch, startMockOrigin, type MockOrigin } from '../src/testing';
+
+describe('defineCachePolicies', () => {
+  const policies = defineCachePolicies([
+    { name: 'graphql', match: { host: 'api.example.com', path: '/graphql', method: 'POST' }, next: { revalidate: 60 } },
+    { name: 'products', match: { host: '*.example.com', path: '/products/*' }, next: { revalidate: 300, tags: ['products'] } },
+    { name: 'assets', match: { path: '/assets/**' }, next: { revalidate: false } },
+    { name: 'default', match: {}, next: { revalidate: 30 } },
+  ]);
+  
+  it('returns the first matching policy', () => {
+    expect(policies.match('https://api.example.com/graphql', { method: 'POST' })?.name).toBe('graphql');
+    expect(policies.match('https://api.example.com/graphql')?.name).toBe('default');
+    expect(policies.match('https://shop.example.com/products/42')?.name).toBe('products');
+    expect(policies.match('https://cdn.other.com/assets/img/logo.png')?.name).toBe('assets');
+  });
+  
+  it('matches host and path globs within one label or segment', () => {
+    expect(policies.match('https://a.b.example.com/products/42')?.name).toBe('default');
+    expect(policies.match('https://shop.example.com/products/42/reviews')?.name).toBe('default');
+  });
+  
+  it('matches the method of Request inputs', () => {
+    const request = new Request('https://api.example.com/graphql', { method: 'POST', body: '{}' });
+    expect(policies.match(request)?.name).toBe('graphql');
+  });
+  
+  it('supports URLPattern-like matchers', () => {
+    const table = defineCachePolicies([
+      { name: 'by-id', match: { pattern: { test: url => /\/items\/\d+$/.test(url) } }, next: { revalidate: 10 } },
+    ]);
+    
+    expect(table.match('https://example.com/items/7')?.name).toBe('by-id');
+    expect(table.match('https://example.com/items/new')).toBeUndefined();
+  });
+  
+  it('lets per-call next options override the policy', () => {
+    const init = policies.apply('https://shop.example.com/products/42', { next: { revalidate: 5, expires: undefined } });
+    
+    expect(init?.next).toEqual({ route: 'products', revalidate: 5, tags: ['products'] });
+  });
+  
+  it('rejects policies without match or next', () => {
+    expect(() => defineCachePolicies([{ name: 'broken' } as never])).toThrow(TypeError);
+  });
+});
+
+describe('createCachedFetch with policies', () => {
+  let origin: MockOrigin;
+  
+  beforeAll(async () => {
+    origin = await startMockOrigin();
+  });
+  
+  afterAll(async () => {
+    await origin.close();
+  });
+  
+  it('applies the matching policy to requests without next options', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch({
+      policies: [{ name: 'local', match: { host: '127.0.0.1' }, next: { revalidate: 60, tags: ['local'] } }],
+    });
+    
+    await (await cachedFetch(`${origin.url}/data`)).text();
+    await settle();
+    
+    const entry = await cachedFetch.peek(`${origin.url}/data`);
+    expect(entry?.tags).toEqual(['local']);
+    expect(cachedFetch.matchPolicy(`${origin.url}/data`)?.name).toBe('local');
+  });
+  
+  it('labels hook events with the policy name as route', async () => {
+    const routes: (string | undefined)[] = [];
+    const { cachedFetch } = createTestCachedFetch({
+      policies: [{ name: 'local', match: { host: '127.0.0.1' }, next: { revalidate: 60 } }],
+      hooks: { onMiss: ({ route }) => { routes.push(route); } },
+    });
+    
+    await (await cachedFetch(`${origin.url}/items/1`)).text();
+    await (await cachedFetch(`${origin.url}/items/2`, { next: { route: '/items/:id' } })).text();
+    
+    expect(routes).toEqual(['local', '/items/:id']);
+  });
+});
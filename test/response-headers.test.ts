@@ -0,0 +1,140 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createTestCachedFetch,
+  installFakeClock,
+  startMockOrigin,
+  type FakeClock,
+  type MockOrigin,
+} from '../src/testing';
+
+describe('cache response headers', () => {
+  let origin: MockOrigin;
+  let clock: FakeClock;
+  
+  beforeAll(async () => {
+    origin = await startMockOrigin(() => Response.json({ ok: true }, { headers: { age: '5' } }));
+  });
+  
+  afterAll(async () => {
+    await origin.close();
+  });
+  
+  beforeEach(() => {
+    clock = installFakeClock(Date.UTC(2025, 0, 1));
+  });
+  
+  afterEach(() => {
+    clock.uninstall();
+  });
+  
+  it('sets only the X-Cache headers by default', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    
+    const miss = await cachedFetch(`${origin.url}/default`, { next: { revalidate: 60 } });
+    await miss.text();
+    await settle();
+    clock.advance(10_000);
+    const hit = await cachedFetch(`${origin.url}/default`, { next: { revalidate: 60, expires: 600 } });
+    
+    expect(miss.headers.get('X-Cache-Status')).toBe('MISS');
+    expect(miss.headers.get('X-Cache-Age')).toBe('0');
+    expect(hit.headers.get('X-Cache-Status')).toBe('HIT');
+    expect(hit.headers.get('X-Cache-Age')).toBe('10');
+    expect(hit.headers.has('Cache-Status')).toBe(false);
+    expect(hit.headers.has('Server-Timing')).toBe(false);
+    expect(hit.headers.get('Age')).toBe('5');
+  });
+  
+  it('emits RFC 9211 Cache-Status for misses and hits', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch({
+      responseHeaders: { cacheStatus: true, cacheName: 'edge', cacheStatusKey: true },
+    });
+    const init = { next: { revalidate: 60, expires: 600 } };
+    const key = await cachedFetch.computeKey(`${origin.url}/rfc`, init);
+    
+    const miss = await cachedFetch(`${origin.url}/rfc`, init);
+    await miss.text();
+    await settle();
+    clock.advance(10_000);
+    const hit = await cachedFetch(`${origin.url}/rfc`, init);
+    clock.advance(60_000);
+    const stale = await cachedFetch(`${origin.url}/rfc`, init);
+    await settle();
+    
+    expect(miss.headers.get('Cache-Status')).toBe(`edge; fwd=miss; fwd-status=200; key="${key}"`);
+    expect(hit.headers.get('Cache-Status')).toBe(`edge; hit; ttl=50; key="${key}"`);
+    expect(stale.headers.get('Cache-Status')).toBe(`edge; hit; ttl=-10; key="${key}"; detail="stale-while-revalidate"`);
+  });
+  
+  it('reports stale entries served on origin errors as forwarded, unless the circuit is open', async () => {
+    let status = 200;
+    const failing = await startMockOrigin(() => new Response('data', { status }));
+    const { cachedFetch, settle } = createTestCachedFetch({
+      responseHeaders: { cacheStatus: true },
+      circuitBreaker: { failureThreshold: 1 },
+    });
+    const init = { next: { revalidate: 60, expires: 120, staleIfError: 600 } };
+    
+    try {
+      await (await cachedFetch(`${failing.url}/flaky`, init)).text();
+      await settle();
+      clock.advance(140_000);
+      status = 503;
+      
+      const forwarded = await cachedFetch(`${failing.url}/flaky`, init);
+      const circuitOpen = await cachedFetch(`${failing.url}/flaky`, init);
+      
+      expect(forwarded.headers.get('Cache-Status'))
+        .toBe('cached-middleware-fetch; fwd=stale; fwd-status=503; ttl=-80; detail="stale-if-error"');
+      expect(circuitOpen.headers.get('Cache-Status'))
+        .toBe('cached-middleware-fetch; hit; ttl=-80; detail="circuit-open"');
+    } finally {
+      await failing.close();
+    }
+  });
+  
+  it('reports bypassed requests as fwd=bypass', async () => {
+    const { cachedFetch } = createTestCachedFetch({ responseHeaders: { cacheStatus: 'CDN-Cache-Status' } });
+    
+    const response = await cachedFetch(`${origin.url}/bypass`, { cache: 'no-store' });
+    
+    expect(response.headers.get('CDN-Cache-Status')).toBe('cached-middleware-fetch; fwd=bypass; fwd-status=200');
+  });
+  
+  it('adds the stored age to the Age header', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch({ responseHeaders: { httpAge: true } });
+    
+    await (await cachedFetch(`${origin.url}/age`, { next: { revalidate: 60 } })).text();
+    await settle();
+    clock.advance(20_000);
+    const hit = await cachedFetch(`${origin.url}/age`, { next: { revalidate: 60 } });
+    
+    expect(hit.headers.get('Age')).toBe('25');
+  });
+  
+  it('appends lookup and origin timings to Server-Timing', async () => {
+    const { cachedFetch } = createTestCachedFetch({ responseHeaders: { serverTiming: true } });
+    
+    const miss = await cachedFetch(`${origin.url}/timing`, { next: { revalidate: 60 } });
+    
+    expect(miss.headers.get('Server-Timing')).toMatch(/^cache;desc="MISS";dur=[\d.]+, origin;dur=[\d.]+$/);
+  });
+  
+  it('renames or omits headers without affecting cachedFetch.json', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch({
+      responseHeaders: { status: 'X-Edge-Cache', age: false, expiresIn: false },
+    });
+    const init = { next: { revalidate: 60, expires: 600 } };
+    
+    await cachedFetch.json(`${origin.url}/json`, init);
+    await settle();
+    clock.advance(10_000);
+    const result = await cachedFetch.json(`${origin.url}/json`, init);
+    
+    expect(result.headers.get('X-Edge-Cache')).toBe('HIT');
+    expect(result.headers.has('X-Cache-Status')).toBe(false);
+    expect(result.headers.has('X-Cache-Age')).toBe(false);
+    expect(result.headers.has('X-Cache-Expires-In')).toBe(false);
+    expect(result).toMatchObject({ cacheStatus: 'HIT', cacheAge: 10, expiresIn: 590 });
+  });
+});
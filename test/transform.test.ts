@@ -0,0 +1,71 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createTestCachedFetch, startMockOrigin, type MockOrigin } from '../src/testing';
+
+describe('transforms and typed JSON', () => {
+  let origin: MockOrigin;
+  
+  beforeAll(async () => {
+    origin = await startMockOrigin(() => Response.json({ name: 'catalog', list: [1, 2, 3] }));
+  });
+  
+  afterAll(async () => {
+    await origin.close();
+  });
+  
+  it('caches different transforms of one request separately', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    const names = {
+      next: { revalidate: 60, transformKey: 'name', transform: async (response: Response) => (await response.json()).name },
+    };
+    const counts = {
+      next: { revalidate: 60, transformKey: 'count', transform: async (response: Response) => (await response.json()).list.length },
+    };
+    
+    expect(await (await cachedFetch(`${origin.url}/catalog`, names)).json()).toBe('catalog');
+    await settle();
+    
+    const count = await cachedFetch(`${origin.url}/catalog`, counts);
+    expect(count.headers.get('X-Cache-Status')).toBe('MISS');
+    expect(await count.json()).toBe(3);
+  });
+  
+  it('tells closures with the same source apart by transformKey', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch();
+    const tagged = (tag: string) => ({
+      next: {
+        revalidate: 60,
+        transformKey: `tagged-${tag}`,
+        transform: async (response: Response) => ({ tag, body: await response.json() }),
+      },
+    });
+    
+    await cachedFetch.json(`${origin.url}/catalog`, tagged('A'));
+    await settle();
+    
+    const b = await cachedFetch.json<{ tag: string }>(`${origin.url}/catalog`, tagged('B'));
+    expect(b.cacheStatus).toBe('MISS');
+    expect(b.data.tag).toBe('B');
+  });
+  
+  it('requires a transformKey with transform', async () => {
+    const { cachedFetch } = createTestCachedFetch();
+    
+    await expect(cachedFetch(`${origin.url}/catalog`, { next: { revalidate: 60, transform: () => 1 } }))
+      .rejects.toBeInstanceOf(TypeError);
+  });
+  
+  it('gives every memory cache hit its own copy of the parsed data', async () => {
+    const { cachedFetch, settle } = createTestCachedFetch({ memoryCache: true });
+    const init = { next: { revalidate: 60 } };
+    
+    await cachedFetch.json(`${origin.url}/catalog`, init);
+    await settle();
+    
+    const first = await cachedFetch.json<{ list: number[] }>(`${origin.url}/catalog`, init);
+    first.data.list.push(99);
+    
+    const second = await cachedFetch.json<{ list: number[] }>(`${origin.url}/catalog`, init);
+    expect(second.cacheStatus).toBe('HIT');
+    expect(second.data.list).toEqual([1, 2, 3]);
+  });
+});